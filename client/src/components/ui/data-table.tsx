@@ -6,6 +6,7 @@ import {
   useReactTable,
   getSortedRowModel,
   SortingState,
+  OnChangeFn,
   getPaginationRowModel,
 } from "@tanstack/react-table";
 
@@ -18,33 +19,56 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { ChevronLeft, ChevronRight } from "lucide-react";
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight } from "lucide-react";
+
+// Passing `pagination` switches the table to server-side mode: `data` is the
+// current page, and sorting and paging are delegated to the caller
+interface ServerPagination {
+  totalCount: number;
+  canPreviousPage: boolean;
+  canNextPage: boolean;
+  onPreviousPage: () => void;
+  onNextPage: () => void;
+}
 
 interface DataTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[];
   data: TData[];
   emptyState?: React.ReactNode;
+  sorting?: SortingState;
+  onSortingChange?: OnChangeFn<SortingState>;
+  pagination?: ServerPagination;
 }
 
 export function DataTable<TData, TValue>({
   columns,
   data,
   emptyState,
+  sorting: controlledSorting,
+  onSortingChange,
+  pagination,
 }: DataTableProps<TData, TValue>) {
-  const [sorting, setSorting] = React.useState<SortingState>([]);
+  const [localSorting, setLocalSorting] = React.useState<SortingState>([]);
+  const sorting = controlledSorting ?? localSorting;
 
   const table = useReactTable({
     data,
     columns,
     getCoreRowModel: getCoreRowModel(),
-    getSortedRowModel: getSortedRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
-    onSortingChange: setSorting,
+    ...(pagination
+      ? { manualSorting: true, manualPagination: true }
+      : {
+          getSortedRowModel: getSortedRowModel(),
+          getPaginationRowModel: getPaginationRowModel(),
+        }),
+    onSortingChange: onSortingChange ?? setLocalSorting,
     state: {
       sorting,
     },
   });
 
+  const totalCount = pagination ? pagination.totalCount : data.length;
+
   return (
     <div>
       <div className="rounded-md border">
@@ -53,13 +77,21 @@ export function DataTable<TData, TValue>({
             {table.getHeaderGroups().map((headerGroup) => (
               <TableRow key={headerGroup.id}>
                 {headerGroup.headers.map((header) => (
-                  <TableHead key={header.id}>
-                    {header.isPlaceholder
-                      ? null
-                      : flexRender(
+                  <TableHead
+                    key={header.id}
+                    className={header.column.getCanSort() ? "cursor-pointer select-none" : undefined}
+                    onClick={header.column.getToggleSortingHandler()}
+                  >
+                    {header.isPlaceholder ? null : (
+                      <div className="inline-flex items-center gap-1">
+                        {flexRender(
                           header.column.columnDef.header,
                           header.getContext()
                         )}
+                        {header.column.getIsSorted() === "asc" && <ArrowUp className="h-3 w-3" />}
+                        {header.column.getIsSorted() === "desc" && <ArrowDown className="h-3 w-3" />}
+                      </div>
+                    )}
                   </TableHead>
                 ))}
               </TableRow>
@@ -97,14 +129,14 @@ export function DataTable<TData, TValue>({
       </div>
       <div className="flex items-center justify-between space-x-2 py-4">
         <div className="text-sm text-muted-foreground">
-          Showing {data.length} {data.length === 1 ? "result" : "results"}
+          Showing {totalCount} {totalCount === 1 ? "result" : "results"}
         </div>
         <div className="flex items-center space-x-2">
           <Button
             variant="outline"
             className="h-8 w-8 p-0"
-            onClick={() => table.previousPage()}
-            disabled={!table.getCanPreviousPage()}
+            onClick={() => pagination ? pagination.onPreviousPage() : table.previousPage()}
+            disabled={pagination ? !pagination.canPreviousPage : !table.getCanPreviousPage()}
           >
             <span className="sr-only">Go to previous page</span>
             <ChevronLeft className="h-4 w-4" />
@@ -112,8 +144,8 @@ export function DataTable<TData, TValue>({
           <Button
             variant="outline"
             className="h-8 w-8 p-0"
-            onClick={() => table.nextPage()}
-            disabled={!table.getCanNextPage()}
+            onClick={() => pagination ? pagination.onNextPage() : table.nextPage()}
+            disabled={pagination ? !pagination.canNextPage : !table.getCanNextPage()}
           >
             <span className="sr-only">Go to next page</span>
             <ChevronRight className="h-4 w-4" />
@@ -4,17 +4,20 @@ import { UploadIcon } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface FileUploadProps {
-  onFileSelected: (file: File) => void;
+  onFilesSelected: (files: File[]) => void;
   acceptedFileTypes?: string;
   className?: string;
   maxSizeMB?: number;
+  // Accept several files per drop or browse
+  multiple?: boolean;
 }
 
 export function FileUpload({
-  onFileSelected,
+  onFilesSelected,
   acceptedFileTypes = ".csv,.xlsx,.xls",
   className,
-  maxSizeMB = 10
+  maxSizeMB = 10,
+  multiple = false
 }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -34,39 +37,48 @@ export function FileUpload({
     setIsDragging(false);
     
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      validateAndProcessFile(e.dataTransfer.files[0]);
+      validateAndProcessFiles(Array.from(e.dataTransfer.files));
     }
   };
 
   const handleFileInputChange = (e: ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      validateAndProcessFile(e.target.files[0]);
+      validateAndProcessFiles(Array.from(e.target.files));
     }
+    // Let the same file be chosen again after it was removed
+    e.target.value = '';
   };
 
-  const validateAndProcessFile = (file: File) => {
+  const validateAndProcessFiles = (files: File[]) => {
     setErrorMessage(null);
     
-    // Check file type
-    const fileExtension = file.name.split('.').pop()?.toLowerCase();
-    const acceptedExtensions = acceptedFileTypes.split(',').map(type => 
-      type.startsWith('.') ? type.substring(1) : type
-    );
-    
-    if (!fileExtension || !acceptedExtensions.includes(fileExtension)) {
-      setErrorMessage(`Invalid file type. Please upload ${acceptedFileTypes} files.`);
+    if (!multiple && files.length > 1) {
+      setErrorMessage('Please upload one file at a time.');
       return;
     }
     
-    // Check file size
+    const acceptedExtensions = acceptedFileTypes.split(',').map(type => 
+      type.startsWith('.') ? type.substring(1) : type
+    );
     const maxSizeBytes = maxSizeMB * 1024 * 1024;
-    if (file.size > maxSizeBytes) {
-      setErrorMessage(`File is too large. Maximum size is ${maxSizeMB}MB.`);
-      return;
+    
+    for (const file of files) {
+      // Check file type
+      const fileExtension = file.name.split('.').pop()?.toLowerCase();
+      if (!fileExtension || !acceptedExtensions.includes(fileExtension)) {
+        setErrorMessage(`Invalid file type: ${file.name}. Please upload ${acceptedFileTypes} files.`);
+        return;
+      }
+      
+      // Check file size
+      if (file.size > maxSizeBytes) {
+        setErrorMessage(`${file.name} is too large. Maximum size is ${maxSizeMB}MB.`);
+        return;
+      }
     }
     
-    // Pass the valid file to parent component
-    onFileSelected(file);
+    // Pass the valid files to parent component
+    onFilesSelected(files);
   };
 
   const handleBrowseClick = () => {
@@ -89,7 +101,9 @@ export function FileUpload({
         onClick={handleBrowseClick}
       >
         <UploadIcon className="h-10 w-10 text-muted-foreground mb-2" />
-        <p className="text-sm mb-2">Drag & drop a CSV/Excel file here</p>
+        <p className="text-sm mb-2">
+          {multiple ? 'Drag & drop CSV/Excel files here' : 'Drag & drop a CSV/Excel file here'}
+        </p>
         <p className="text-xs text-muted-foreground">or</p>
         <Button variant="default" className="mt-4">Browse files</Button>
         <input
@@ -97,6 +111,7 @@ export function FileUpload({
           ref={fileInputRef}
           onChange={handleFileInputChange}
           accept={acceptedFileTypes}
+          multiple={multiple}
           className="hidden"
         />
       </div>
@@ -1,7 +1,7 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Card, CardContent } from "@/components/ui/card";
 import { DataTable } from "@/components/ui/data-table";
 import { FileUpload } from "@/components/ui/file-upload";
@@ -11,8 +11,20 @@ import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
 import {
   ColumnDef,
+  OnChangeFn,
+  SortingState,
   createColumnHelper
 } from "@tanstack/react-table";
 import {
@@ -21,8 +33,10 @@ import {
   AlertCircleIcon,
   PauseIcon,
   PlayIcon,
+  RotateCcwIcon,
   XIcon,
   CopyIcon,
+  ColumnsIcon,
   PanelLeftIcon,
   LaptopIcon
 } from "lucide-react";
@@ -30,20 +44,123 @@ import { useTheme } from "@/components/ThemeProvider";
 
 // Define types
 type TrackResult = {
+  id: number;
+  jobId: number;
   mawb: string;
   prefix: string;
   awbNo: string;
   status: string;
+  milestone: MilestoneCode | null;
   origin: string;
   dest: string;
   pcs: string;
   grossWt: string;
   lastAct: string;
   lastActDt: string;
+  // Typed values parsed from pcs, grossWt and lastActDt; null when the text could not be read
+  pieces: number | null;
+  weight: number | null;
+  weightUnit: "kg" | "lb" | null;
+  weightKg: number | null;
+  lastActAt: string | null;
   doUrl: string;
+  // Cells of the uploaded row, keyed by column header
+  sourceColumns: Record<string, string> | null;
+  // File, sheet and sheet row the AWB was read from
+  sourceFile: string | null;
+  sourceSheet: string | null;
+  sourceRow: number | null;
+};
+
+// Canonical milestones the server maps carrier statuses to, in shipment order
+const milestoneLabels = {
+  BKD: "Booked",
+  RCS: "Received from shipper",
+  MAN: "Manifested",
+  DEP: "Departed",
+  ARR: "Arrived",
+  RCF: "Received from flight",
+  NFD: "Consignee notified",
+  AWD: "Documents delivered",
+  DLV: "Delivered",
+  EXC: "Exception",
+} as const;
+
+type MilestoneCode = keyof typeof milestoneLabels;
+
+type TrackResultPage = {
+  items: TrackResult[];
+  nextCursor: string | null;
+  total: number;
+  totals: { pieces: number; weightKg: number };
+};
+
+type ResultFilters = {
+  milestone: MilestoneCode | "";
+  origin: string;
+  dest: string;
+  prefix: string;
+  // Last activity date range (yyyy-mm-dd), both days included
+  lastActFrom: string;
+  lastActTo: string;
+};
+
+const emptyFilters: ResultFilters = { milestone: "", origin: "", dest: "", prefix: "", lastActFrom: "", lastActTo: "" };
+
+type PreflightReport = {
+  total: number;
+  valid: number;
+  corrected: { rowNumber: number; input: string; mawb: string; note: string }[];
+  rejected: { rowNumber: number; input: string; reason: string }[];
+  duplicates: { rowNumber: number; input: string; mawb: string; duplicateOf: number }[];
 };
 
-type JobStatus = "pending" | "processing" | "completed" | "failed" | "cancelled" | "paused";
+type InputCounts = { total: number; valid: number; invalid: number; duplicate: number };
+
+type InputSheetPreview = {
+  file: string;
+  name: string;
+  headerRow: number;
+  headers: string[];
+  rowCount: number;
+  sampleRows: string[][];
+  suggestedColumn: number | null;
+  selected: boolean;
+  column: number | null;
+  counts: InputCounts | null;
+};
+
+type InputPreview = {
+  files: string[];
+  sheets: InputSheetPreview[];
+  counts: InputCounts | null;
+};
+
+// A sheet of the selected files to track, with its header row and AWB column
+type SheetSelection = { file: string; sheet: string; headerRow?: number; column?: number };
+
+// The sheets a preview would track, as the selection that reproduces it
+const previewSelection = (preview: InputPreview): SheetSelection[] =>
+  preview.sheets
+    .filter((sheet) => sheet.selected)
+    .map((sheet) => ({
+      file: sheet.file,
+      sheet: sheet.name,
+      headerRow: sheet.headerRow,
+      column: sheet.column ?? undefined,
+    }));
+
+// Entries of a pasted AWB list, split the way the server splits it: by line, comma, semicolon or tab
+const splitAwbList = (text: string): string[] =>
+  text.split(/[\r\n,;\t]+/).map((entry) => entry.trim()).filter((entry) => entry !== "");
+
+type JobQueued = { jobId: number; queuePosition: number | null; preflight: PreflightReport };
+
+// Values of a sheet's sample rows in the AWB column it is read from
+const sampleValues = ({ column, sampleRows }: InputSheetPreview): string[] =>
+  column === null ? [] : sampleRows.map((row) => row[column] || "");
+
+type JobStatus = "pending" | "queued" | "processing" | "completed" | "failed" | "cancelled" | "paused";
 
 type TrackJob = {
   id: number;
@@ -51,10 +168,13 @@ type TrackJob = {
   totalCount: number;
   processedCount: number;
   status: JobStatus;
+  queuePosition: number | null;
+  // Headers of the uploaded sheet
+  inputColumns: string[];
   createdAt: string;
 };
 
-type WSMessageType = "log" | "progress" | "result" | "complete";
+type WSMessageType = "log" | "progress" | "result" | "complete" | "status" | "carrier" | "warning";
 type LogLevel = "info" | "success" | "error" | "warn";
 
 type WSMessage = {
@@ -63,6 +183,9 @@ type WSMessage = {
   message?: string;
   level?: LogLevel;
   data?: TrackResult;
+  status?: JobStatus;
+  // Circuit state of the carrier a "carrier" message is about
+  state?: "open" | "closed";
   progress?: {
     current: number;
     total: number;
@@ -76,21 +199,27 @@ const columns: ColumnDef<TrackResult, any>[] = [
     header: "MAWB",
     cell: (info) => <span className="font-mono text-xs whitespace-nowrap">{info.getValue()}</span>,
   }),
-  columnHelper.accessor("status", {
+  columnHelper.accessor("milestone", {
     header: "Status",
     cell: (info) => {
-      const status = info.getValue();
+      const milestone: MilestoneCode | null = info.getValue();
+      const status = info.row.original.status;
       let className = "text-foreground";
       
-      if (status?.includes("DELIVERED") || status?.includes("COMPLETED")) {
+      if (milestone === "DLV") {
         className = "text-success";
-      } else if (status?.includes("TRANSIT") || status?.includes("PROGRESS")) {
-        className = "text-warning";
-      } else if (status?.includes("HOLD") || status?.includes("DELAY")) {
+      } else if (milestone === "EXC") {
         className = "text-destructive";
+      } else if (milestone) {
+        className = "text-warning";
       }
       
-      return <span className={className}>{status}</span>;
+      // Unmapped statuses fall back to the carrier's own text
+      return (
+        <span className={className} title={status}>
+          {milestone ? `${milestone} · ${milestoneLabels[milestone]}` : status}
+        </span>
+      );
     },
   }),
   columnHelper.accessor("origin", {
@@ -99,38 +228,144 @@ const columns: ColumnDef<TrackResult, any>[] = [
   columnHelper.accessor("dest", {
     header: "Dest",
   }),
-  columnHelper.accessor("pcs", {
+  columnHelper.accessor("pieces", {
     header: "Pcs",
+    cell: (info) => info.getValue() ?? info.row.original.pcs,
   }),
-  columnHelper.accessor("grossWt", {
+  columnHelper.accessor("weightKg", {
     header: "Weight",
+    cell: (info) => {
+      const { weight, weightUnit, grossWt } = info.row.original;
+      return weight === null ? grossWt : `${weight.toLocaleString()} ${weightUnit}`;
+    },
   }),
   columnHelper.accessor("lastAct", {
     header: "Last Activity",
+    enableSorting: false,
     cell: (info) => (
       <div className="max-w-[200px] truncate" title={info.getValue()}>
         {info.getValue()}
       </div>
     ),
   }),
+  columnHelper.accessor("lastActAt", {
+    header: "Activity Time",
+    cell: (info) => {
+      const lastActAt: string | null = info.getValue();
+      return (
+        <span className="whitespace-nowrap" title={info.row.original.lastActDt}>
+          {lastActAt ? new Date(lastActAt).toLocaleString() : info.row.original.lastActDt}
+        </span>
+      );
+    },
+  }),
+  columnHelper.display({
+    id: "source",
+    header: "Source",
+    cell: ({ row }) => {
+      const { sourceFile, sourceSheet, sourceRow } = row.original;
+      return sourceFile ? (
+        <span className="whitespace-nowrap text-xs text-muted-foreground" title={sourceFile}>
+          {sourceSheet} · row {sourceRow}
+        </span>
+      ) : "";
+    },
+  }),
 ];
 
 export default function Dashboard() {
   const { toast } = useToast();
   const { theme, setTheme } = useTheme();
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [pastedAwbs, setPastedAwbs] = useState("");
+  const [inputPreview, setInputPreview] = useState<InputPreview | null>(null);
   const [activeJobId, setActiveJobId] = useState<number | null>(null);
   const [logs, setLogs] = useState<{ message: string; level: LogLevel }[]>([]);
-  const [results, setResults] = useState<TrackResult[]>([]);
+  const [resultFilters, setResultFilters] = useState<ResultFilters>(emptyFilters);
+  const [sorting, setSorting] = useState<SortingState>([]);
+  // Cursors of the pages visited so far; the last one is the current page
+  const [pageCursors, setPageCursors] = useState<string[]>([]);
   const [progress, setProgress] = useState<{ current: number; total: number }>({ current: 0, total: 0 });
   const [jobStatus, setJobStatus] = useState<JobStatus>("pending");
   const [requestDelay, setRequestDelay] = useState<number>(100);
-  const [batchSize, setBatchSize] = useState<string>("50");
+  const [parallelSessions, setParallelSessions] = useState<string>("2");
+  const [isUrgent, setIsUrgent] = useState<boolean>(false);
   const [useGoogleSheets, setUseGoogleSheets] = useState<boolean>(false);
   const [spreadsheetId, setSpreadsheetId] = useState<string>("");
   const wsRef = useRef<WebSocket | null>(null);
   const logsContainerRef = useRef<HTMLDivElement | null>(null);
 
+  // Results are filtered, sorted and paged on the server
+  const resultsUrl = activeJobId === null ? null : (() => {
+    // Consolidated so a retry job shows the merged results of its original upload
+    const params = new URLSearchParams({ limit: "50", consolidated: "true" });
+    const { lastActFrom, lastActTo, ...textFilters } = resultFilters;
+    for (const [key, value] of Object.entries(textFilters)) {
+      if (value.trim()) params.set(key, value.trim());
+    }
+    // Send the date range as local midnights; the end is exclusive on the server
+    if (lastActFrom) {
+      params.set("lastActFrom", new Date(`${lastActFrom}T00:00`).toISOString());
+    }
+    if (lastActTo) {
+      const end = new Date(`${lastActTo}T00:00`);
+      end.setDate(end.getDate() + 1);
+      params.set("lastActTo", end.toISOString());
+    }
+    if (sorting.length) {
+      params.set("sort", sorting[0].id);
+      params.set("order", sorting[0].desc ? "desc" : "asc");
+    }
+    if (pageCursors.length) {
+      params.set("cursor", pageCursors[pageCursors.length - 1]);
+    }
+    return `/api/track/results/${activeJobId}?${params}`;
+  })();
+
+  const { data: resultPage } = useQuery<TrackResultPage>({
+    queryKey: [resultsUrl],
+    enabled: resultsUrl !== null,
+    placeholderData: (previous) => previous,
+  });
+  const results = resultPage?.items ?? [];
+
+  // Rows that errored in a finished job can be retried
+  const isJobFinished = jobStatus === "completed" || jobStatus === "failed" || jobStatus === "cancelled";
+  const { data: failedRows } = useQuery<unknown[]>({
+    queryKey: [`/api/track/jobs/${activeJobId}/outcomes?outcome=error`],
+    enabled: activeJobId !== null && isJobFinished,
+    staleTime: 0,
+  });
+  const failedCount = isJobFinished ? failedRows?.length ?? 0 : 0;
+
+  // Poll the queue position while the job waits for a free slot
+  const { data: activeJob } = useQuery<TrackJob>({
+    queryKey: [`/api/track/jobs/${activeJobId}`],
+    enabled: activeJobId !== null,
+    refetchInterval: jobStatus === "queued" ? 2000 : false,
+    staleTime: 0,
+  });
+  const queuePosition = jobStatus === "queued" ? activeJob?.queuePosition ?? null : null;
+  
+  // Input columns shown next to the tracking columns, and copied into the Excel export
+  const [shownInputColumns, setShownInputColumns] = useState<string[]>([]);
+  const inputColumns = activeJob?.inputColumns ?? [];
+  const tableColumns = useMemo<ColumnDef<TrackResult, any>[]>(() => [
+    ...shownInputColumns.map((name) => columnHelper.display({
+      id: `source:${name}`,
+      header: name,
+      cell: ({ row }) => row.original.sourceColumns?.[name] ?? "",
+    })),
+    ...columns,
+  ], [shownInputColumns]);
+  
+  const toggleInputColumn = (name: string, shown: boolean) => {
+    // Keep the file's column order whatever order they are picked in
+    setShownInputColumns((current) => inputColumns.filter((column) =>
+      column === name ? shown : current.includes(column)
+    ));
+  };
+
   // Initialize WebSocket connection
   useEffect(() => {
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
@@ -174,8 +409,38 @@ export default function Dashboard() {
             break;
           
           case "result":
-            if (message.data) {
-              setResults(prev => [...prev, message.data!]);
+            // Refresh whichever page of this job's results is on screen
+            queryClient.invalidateQueries({
+              predicate: (query) => String(query.queryKey[0]).startsWith(`/api/track/results/${message.jobId}?`),
+            });
+            break;
+          
+          case "status":
+            // Worker actually parked or resumed
+            if (message.status) {
+              setJobStatus(message.status);
+            }
+            break;
+          
+          case "carrier":
+            // A carrier went down or recovered; the job is paused or resumed automatically
+            if (message.message) {
+              toast({
+                title: message.state === "open" ? "Carrier Unavailable" : "Carrier Recovered",
+                description: message.message,
+                variant: message.state === "open" ? "destructive" : "default",
+              });
+            }
+            break;
+          
+          case "warning":
+            // Repeated parser anomalies; the results of this job may be incomplete
+            if (message.message) {
+              toast({
+                title: "Parser Warning",
+                description: message.message,
+                variant: "destructive",
+              });
             }
             break;
           
@@ -215,31 +480,143 @@ export default function Dashboard() {
     };
   }, [activeJobId, toast]);
 
-  // Handle file selection
-  const handleFileSelected = (file: File) => {
-    setSelectedFile(file);
-    setResults([]);
+  // Handle file selection; files dropped later are added to the upload, replacing any of the same name
+  const handleFilesSelected = (files: File[]) => {
+    const names = new Set(files.map((file) => file.name));
+    const nextFiles = [...selectedFiles.filter((file) => !names.has(file.name)), ...files];
+    setSelectedFiles(nextFiles);
+    setResultFilters(emptyFilters);
+    setPageCursors([]);
     setLogs([]);
     setProgress({ current: 0, total: 0 });
     setJobStatus("pending");
     setActiveJobId(null);
+    setShownInputColumns([]);
+    setInputPreview(null);
+    previewMutation.mutate({ files: nextFiles });
+    
+    toast({
+      title: files.length > 1 ? "Files Selected" : "File Selected",
+      description: `${files.map((file) => file.name).join(", ")} ${files.length > 1 ? "are" : "is"} ready for upload.`,
+    });
+  };
+
+  const handleFileRemoved = (name: string) => {
+    const nextFiles = selectedFiles.filter((file) => file.name !== name);
+    setSelectedFiles(nextFiles);
+    setInputPreview(null);
+    if (nextFiles.length > 0) previewMutation.mutate({ files: nextFiles });
+  };
+
+  // Preview how the selected files would be read; changing the sheets or columns previews them again
+  const previewMutation = useMutation({
+    mutationFn: async ({ files, selection }: { files: File[]; selection?: SheetSelection[] }) => {
+      const formData = new FormData();
+      files.forEach((file) => formData.append("files", file));
+      if (selection) formData.append("selection", JSON.stringify(selection));
+      
+      const res = await fetch("/api/track/preview", {
+        method: "POST",
+        body: formData,
+      });
+      
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to read file");
+      }
+      
+      return res.json() as Promise<InputPreview>;
+    },
+    onSuccess: (data) => {
+      setInputPreview(data);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Read File",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Include or leave out a sheet, or change how it is read, and preview the new selection
+  const updateSheetSelection = (sheet: InputSheetPreview, change: { selected?: boolean; headerRow?: number; column?: number }) => {
+    if (!inputPreview) return;
+    const others = previewSelection(inputPreview).filter((entry) => entry.file !== sheet.file || entry.sheet !== sheet.name);
+    const selected = change.selected ?? sheet.selected;
+    // A new header row renames the columns, so the column is suggested again
+    const entry: SheetSelection = change.headerRow !== undefined
+      ? { file: sheet.file, sheet: sheet.name, headerRow: change.headerRow }
+      : { file: sheet.file, sheet: sheet.name, headerRow: sheet.headerRow, column: change.column ?? sheet.column ?? undefined };
+    
+    const selection = inputPreview.sheets.flatMap((candidate) => {
+      if (candidate === sheet) return selected ? [entry] : [];
+      return others.filter((other) => other.file === candidate.file && other.sheet === candidate.name);
+    });
+    previewMutation.mutate({ files: selectedFiles, selection });
+  };
+
+  const selectedSheets = inputPreview?.sheets.filter((sheet) => sheet.selected) ?? [];
+  const selectionReady = selectedSheets.length > 0 && selectedSheets.every((sheet) => sheet.column !== null);
+
+  // Changing filters or sort order starts again from the first page
+  const handleFilterChange = (key: keyof ResultFilters, value: string) => {
+    setResultFilters(prev => ({ ...prev, [key]: value }));
+    setPageCursors([]);
+  };
+
+  const handleSortingChange: OnChangeFn<SortingState> = (updater) => {
+    setSorting(updater);
+    setPageCursors([]);
+  };
+
+  // Follow a newly created job, listing what the pre-flight checks found
+  const handleJobQueued = (data: JobQueued, title: string) => {
+    setActiveJobId(data.jobId);
+    setJobStatus("queued");
+    
+    // List what the pre-flight checks changed or left out before tracking starts
+    const { corrected, rejected, duplicates } = data.preflight;
+    setLogs([
+      ...corrected.map((row) => ({
+        message: `[Row ${row.rowNumber}] Corrected ${row.input} to ${row.mawb} (${row.note})`,
+        level: "info" as const,
+      })),
+      ...rejected.map((row) => ({
+        message: `[Row ${row.rowNumber}] Rejected ${row.input}: ${row.reason}`,
+        level: "warn" as const,
+      })),
+      ...duplicates.map((row) => ({
+        message: `[Row ${row.rowNumber}] ${row.mawb} duplicates row ${row.duplicateOf}`,
+        level: "warn" as const,
+      })),
+    ]);
     
     toast({
-      title: "File Selected",
-      description: `${file.name} is ready for upload.`,
+      title,
+      description: `${data.preflight.valid} of ${data.preflight.total} rows will be tracked` +
+        ` (${corrected.length} corrected, ${rejected.length} rejected, ${duplicates.length} duplicates). ` +
+        (data.queuePosition
+          ? `Queued at position ${data.queuePosition}.`
+          : "Processing has begun."),
     });
   };
 
   // Track file upload mutation
   const uploadMutation = useMutation({
     mutationFn: async () => {
-      if (!selectedFile) {
+      if (selectedFiles.length === 0) {
         throw new Error("No file selected");
       }
       
       const formData = new FormData();
-      formData.append("file", selectedFile);
+      selectedFiles.forEach((file) => formData.append("files", file));
       formData.append("delay", requestDelay.toString());
+      formData.append("concurrency", parallelSessions);
+      formData.append("priority", isUrgent ? "urgent" : "normal");
+      if (inputPreview) {
+        formData.append("selection", JSON.stringify(previewSelection(inputPreview)));
+      }
       
       const res = await fetch("/api/track/file", {
         method: "POST",
@@ -253,23 +630,58 @@ export default function Dashboard() {
       
       return res.json();
     },
-    onSuccess: (data) => {
-      setActiveJobId(data.jobId);
-      setJobStatus("processing");
+    onSuccess: (data: JobQueued) => handleJobQueued(data, "Upload Complete"),
+    onError: (error) => {
       toast({
-        title: "Processing Started",
-        description: "File uploaded successfully and processing has begun.",
+        title: "Upload Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Track a pasted list of AWBs as a job of its own
+  const batchMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/track/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          mawbs: pastedAwbs,
+          delay: requestDelay,
+          concurrency: parallelSessions,
+          priority: isUrgent ? "urgent" : "normal",
+        }),
       });
+      
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to submit AWBs");
+      }
+      
+      return res.json();
+    },
+    onSuccess: (data: JobQueued) => {
+      setSelectedFiles([]);
+      setInputPreview(null);
+      setPastedAwbs("");
+      setResultFilters(emptyFilters);
+      setPageCursors([]);
+      setProgress({ current: 0, total: 0 });
+      setShownInputColumns([]);
+      handleJobQueued(data, "AWBs Submitted");
     },
     onError: (error) => {
       toast({
-        title: "Upload Failed",
+        title: "Submission Failed",
         description: error.message,
         variant: "destructive",
       });
     },
   });
 
+  const pastedCount = useMemo(() => splitAwbList(pastedAwbs).length, [pastedAwbs]);
+
   // Job control mutation (pause, resume, cancel)
   const controlJobMutation = useMutation({
     mutationFn: async (action: "pause" | "resume" | "cancel") => {
@@ -296,6 +708,39 @@ export default function Dashboard() {
     },
   });
 
+  // Retry failed rows mutation
+  const retryFailedMutation = useMutation({
+    mutationFn: async () => {
+      if (!activeJobId) {
+        throw new Error("No active job");
+      }
+      
+      const res = await apiRequest("POST", `/api/track/jobs/${activeJobId}/retry-failed`, {
+        delay: requestDelay,
+        concurrency: Number(parallelSessions),
+      });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setActiveJobId(data.jobId);
+      setJobStatus("queued");
+      setLogs([]);
+      setProgress({ current: 0, total: 0 });
+      setPageCursors([]);
+      toast({
+        title: "Retry Started",
+        description: data.message,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Retry Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Google Sheets export mutation
   const exportToGSheetsMutation = useMutation({
     mutationFn: async () => {
@@ -307,7 +752,7 @@ export default function Dashboard() {
         throw new Error("Please enter a Google Spreadsheet ID");
       }
       
-      const res = await apiRequest("POST", `/api/track/results/${activeJobId}/gsheet`, { spreadsheetId });
+      const res = await apiRequest("POST", `/api/track/results/${activeJobId}/gsheet?consolidated=true`, { spreadsheetId });
       return res.json();
     },
     onSuccess: (data) => {
@@ -336,13 +781,18 @@ export default function Dashboard() {
       return;
     }
     
-    window.open(`/api/track/results/${activeJobId}/excel`, "_blank");
+    // One columns parameter per input column, as column names may hold commas
+    const params = new URLSearchParams({ consolidated: "true" });
+    for (const column of shownInputColumns.length > 0 ? shownInputColumns : [""]) {
+      params.append("columns", column);
+    }
+    window.open(`/api/track/results/${activeJobId}/excel?${params}`, "_blank");
   };
 
   // Handle copy to clipboard
   const handleCopyToClipboard = async () => {
     try {
-      const text = results.map(r => `${r.mawb}, ${r.status}, ${r.origin}, ${r.dest}, ${r.pcs}, ${r.grossWt}, ${r.lastAct}`).join('\n');
+      const text = results.map(r => `${r.mawb}, ${r.milestone ?? ""}, ${r.status}, ${r.origin}, ${r.dest}, ${r.pcs}, ${r.grossWt}, ${r.lastAct}`).join('\n');
       await navigator.clipboard.writeText(text);
       
       toast({
@@ -364,6 +814,10 @@ export default function Dashboard() {
     let statusText = "Ready";
     
     switch (jobStatus) {
+      case "queued":
+        statusColor = "bg-muted-foreground";
+        statusText = queuePosition ? `Queued (#${queuePosition})` : "Queued";
+        break;
       case "processing":
         statusColor = "bg-primary animate-pulse";
         statusText = "Processing";
@@ -459,25 +913,161 @@ export default function Dashboard() {
             {/* Upload Card */}
             <Card>
               <CardContent className="p-4">
-                <h2 className="font-semibold mb-4">Upload File</h2>
-                <FileUpload 
-                  onFileSelected={handleFileSelected}
-                  acceptedFileTypes=".csv,.xlsx,.xls"
-                />
-                {selectedFile && (
-                  <>
-                    <p className="text-sm mt-3 text-center">{selectedFile.name}</p>
-                    {jobStatus === "pending" && (
-                      <Button 
-                        className="mt-4 w-full"
-                        onClick={() => uploadMutation.mutate()}
-                        disabled={uploadMutation.isPending}
-                      >
-                        {uploadMutation.isPending ? "Uploading..." : "Start Tracking"}
-                      </Button>
+                <Tabs defaultValue="file">
+                  <TabsList className="grid w-full grid-cols-2 mb-4">
+                    <TabsTrigger value="file">Upload Files</TabsTrigger>
+                    <TabsTrigger value="paste">Paste AWBs</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="file">
+                    <FileUpload 
+                      onFilesSelected={handleFilesSelected}
+                      acceptedFileTypes=".csv,.xlsx,.xls,.zip"
+                      multiple
+                    />
+                    {selectedFiles.length > 0 && (
+                      <>
+                        <ul className="mt-3 space-y-1">
+                          {selectedFiles.map((file) => (
+                            <li key={file.name} className="flex items-center justify-between text-sm">
+                              <span className="truncate" title={file.name}>{file.name}</span>
+                              {jobStatus === "pending" && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-6 w-6 p-0"
+                                  onClick={() => handleFileRemoved(file.name)}
+                                  disabled={previewMutation.isPending}
+                                  title="Remove file"
+                                >
+                                  <XIcon className="h-3 w-3" />
+                                </Button>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                        {jobStatus === "pending" && inputPreview && (
+                          <div className="mt-4 space-y-3">
+                            <h3 className="text-sm font-medium">Sheets to Track</h3>
+                            {inputPreview.sheets.map((sheet, sheetIdx) => (
+                              <div key={`${sheet.file}:${sheet.name}`} className="border rounded p-2 space-y-2">
+                                <div className="flex items-center gap-2">
+                                  <Checkbox
+                                    id={`sheet-${sheetIdx}`}
+                                    checked={sheet.selected}
+                                    // At least one sheet stays selected
+                                    disabled={previewMutation.isPending || (sheet.selected && selectedSheets.length === 1)}
+                                    onCheckedChange={(checked) => updateSheetSelection(sheet, { selected: checked === true })}
+                                  />
+                                  <Label htmlFor={`sheet-${sheetIdx}`} className="text-xs truncate" title={sheet.file}>
+                                    {inputPreview.files.length > 1 ? `${sheet.file} · ` : ""}{sheet.name} ({sheet.rowCount} rows)
+                                  </Label>
+                                </div>
+                                {sheet.selected && (
+                                  <>
+                                    <div className="grid grid-cols-3 gap-2">
+                                      <div>
+                                        <Label htmlFor={`sheet-${sheetIdx}-header`} className="text-xs block mb-1">Header Row</Label>
+                                        <Input
+                                          // Remount when a preview changes the row so the field shows the new value
+                                          key={`${sheet.file}:${sheet.name}:${sheet.headerRow}`}
+                                          id={`sheet-${sheetIdx}-header`}
+                                          type="number"
+                                          min={1}
+                                          defaultValue={sheet.headerRow}
+                                          className="h-8 text-sm"
+                                          disabled={previewMutation.isPending}
+                                          onBlur={(e) => {
+                                            const headerRow = parseInt(e.target.value);
+                                            if (headerRow >= 1 && headerRow !== sheet.headerRow) {
+                                              updateSheetSelection(sheet, { headerRow });
+                                            }
+                                          }}
+                                          onKeyDown={(e) => {
+                                            if (e.key === "Enter") e.currentTarget.blur();
+                                          }}
+                                        />
+                                      </div>
+                                      <div className="col-span-2">
+                                        <Label htmlFor={`sheet-${sheetIdx}-column`} className="text-xs block mb-1">AWB Column</Label>
+                                        <Select
+                                          value={sheet.column === null ? "" : sheet.column.toString()}
+                                          onValueChange={(column) => updateSheetSelection(sheet, { column: parseInt(column) })}
+                                          disabled={previewMutation.isPending}
+                                        >
+                                          <SelectTrigger id={`sheet-${sheetIdx}-column`} className="h-8 text-sm">
+                                            <SelectValue placeholder="Choose the AWB column" />
+                                          </SelectTrigger>
+                                          <SelectContent>
+                                            {sheet.headers.map((header, idx) => (
+                                              <SelectItem key={idx} value={idx.toString()}>
+                                                {header || `Column ${idx + 1}`}
+                                                {idx === sheet.suggestedColumn ? " (suggested)" : ""}
+                                              </SelectItem>
+                                            ))}
+                                          </SelectContent>
+                                        </Select>
+                                      </div>
+                                    </div>
+                                    {sheet.column !== null && (
+                                      <div className="font-mono text-xs bg-muted p-2 rounded">
+                                        {sampleValues(sheet).slice(0, 3).map((value, idx) => (
+                                          <div key={idx} className="truncate">{value || "\u00a0"}</div>
+                                        ))}
+                                      </div>
+                                    )}
+                                    {sheet.counts && (
+                                      <p className="text-xs text-muted-foreground">
+                                        {sheet.counts.valid} valid, {sheet.counts.invalid} invalid,{" "}
+                                        {sheet.counts.duplicate} duplicate of {sheet.counts.total} rows
+                                      </p>
+                                    )}
+                                  </>
+                                )}
+                              </div>
+                            ))}
+                            {inputPreview.counts && (
+                              <p className="text-xs text-muted-foreground">
+                                In total {inputPreview.counts.valid} valid, {inputPreview.counts.invalid} invalid,{" "}
+                                {inputPreview.counts.duplicate} duplicate of {inputPreview.counts.total} rows
+                              </p>
+                            )}
+                          </div>
+                        )}
+                        {jobStatus === "pending" && (
+                          <Button 
+                            className="mt-4 w-full"
+                            onClick={() => uploadMutation.mutate()}
+                            disabled={uploadMutation.isPending || previewMutation.isPending || (inputPreview !== null && !selectionReady)}
+                          >
+                            {uploadMutation.isPending ? "Uploading..." : "Start Tracking"}
+                          </Button>
+                        )}
+                      </>
                     )}
-                  </>
-                )}
+                  </TabsContent>
+                  <TabsContent value="paste">
+                    <Label htmlFor="pastedAwbs" className="text-xs block mb-1">
+                      One AWB per line, or separated by commas
+                    </Label>
+                    <Textarea
+                      id="pastedAwbs"
+                      value={pastedAwbs}
+                      onChange={(e) => setPastedAwbs(e.target.value)}
+                      placeholder={"807-12345675\n807-12345686"}
+                      className="font-mono text-sm min-h-[160px]"
+                    />
+                    <p className="text-xs text-muted-foreground mt-2">
+                      {pastedCount} {pastedCount === 1 ? "AWB" : "AWBs"}
+                    </p>
+                    <Button
+                      className="mt-4 w-full"
+                      onClick={() => batchMutation.mutate()}
+                      disabled={batchMutation.isPending || pastedCount === 0}
+                    >
+                      {batchMutation.isPending ? "Submitting..." : "Start Tracking"}
+                    </Button>
+                  </TabsContent>
+                </Tabs>
               </CardContent>
             </Card>
 
@@ -511,29 +1101,45 @@ export default function Dashboard() {
                   </div>
                   
                   <div>
-                    <Label htmlFor="batchSize" className="text-sm font-medium block mb-1">
-                      Batch Size
+                    <Label htmlFor="parallelSessions" className="text-sm font-medium block mb-1">
+                      Parallel Sessions
                     </Label>
                     <Select 
-                      value={batchSize} 
-                      onValueChange={setBatchSize}
+                      value={parallelSessions} 
+                      onValueChange={setParallelSessions}
                       disabled={jobStatus === "processing"}
                     >
-                      <SelectTrigger id="batchSize" className="h-9">
-                        <SelectValue placeholder="Select batch size" />
+                      <SelectTrigger id="parallelSessions" className="h-9">
+                        <SelectValue placeholder="Select parallel sessions" />
                       </SelectTrigger>
                       <SelectContent>
                         <SelectGroup>
-                          <SelectLabel>Batch Size</SelectLabel>
-                          <SelectItem value="10">10</SelectItem>
-                          <SelectItem value="25">25</SelectItem>
-                          <SelectItem value="50">50</SelectItem>
-                          <SelectItem value="100">100</SelectItem>
+                          <SelectLabel>Parallel Sessions</SelectLabel>
+                          {Array.from({ length: 8 }, (_, idx) => String(idx + 1)).map((count) => (
+                            <SelectItem key={count} value={count}>{count}</SelectItem>
+                          ))}
                         </SelectGroup>
                       </SelectContent>
                     </Select>
                     <p className="text-xs text-muted-foreground mt-1">
-                      Number of AWBs to track in parallel
+                      Carrier sessions tracking AWBs in parallel
+                    </p>
+                  </div>
+                  
+                  <div className="pt-2">
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="urgent"
+                        checked={isUrgent}
+                        onCheckedChange={setIsUrgent}
+                        disabled={jobStatus === "processing"}
+                      />
+                      <Label htmlFor="urgent" className="text-sm">
+                        Urgent
+                      </Label>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1 ml-6">
+                      Jump ahead of normal jobs waiting in the queue
                     </p>
                   </div>
                   
@@ -635,12 +1241,24 @@ export default function Dashboard() {
                           </>
                         )}
                       </Button>
+                      {failedCount > 0 && (
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          className="h-9"
+                          onClick={() => retryFailedMutation.mutate()}
+                          disabled={retryFailedMutation.isPending}
+                        >
+                          <RotateCcwIcon className="h-4 w-4 mr-1" />
+                          Retry {failedCount} Failed
+                        </Button>
+                      )}
                       <Button
                         variant="destructive"
                         size="sm"
                         className="h-9"
                         onClick={() => controlJobMutation.mutate("cancel")}
-                        disabled={jobStatus !== "processing" && jobStatus !== "paused" || controlJobMutation.isPending}
+                        disabled={jobStatus !== "queued" && jobStatus !== "processing" && jobStatus !== "paused" || controlJobMutation.isPending}
                       >
                         <XIcon className="h-4 w-4 mr-1" />
                         Cancel
@@ -657,12 +1275,39 @@ export default function Dashboard() {
                 <div className="flex justify-between items-center mb-4">
                   <h2 className="font-semibold">Results</h2>
                   <div className="flex space-x-2">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-9"
+                          disabled={inputColumns.length === 0}
+                        >
+                          <ColumnsIcon className="h-4 w-4 mr-1" />
+                          Input Columns
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto">
+                        <DropdownMenuLabel>Show in table and export</DropdownMenuLabel>
+                        {inputColumns.map((name) => (
+                          <DropdownMenuCheckboxItem
+                            key={name}
+                            checked={shownInputColumns.includes(name)}
+                            onCheckedChange={(checked) => toggleInputColumn(name, checked)}
+                            onSelect={(e) => e.preventDefault()}
+                          >
+                            {name}
+                          </DropdownMenuCheckboxItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    
                     <Button
                       variant="secondary"
                       size="sm"
                       className="h-9"
                       onClick={handleDownloadExcel}
-                      disabled={!results.length || jobStatus === "pending"}
+                      disabled={!resultPage?.total || jobStatus === "pending"}
                     >
                       <DownloadIcon className="h-4 w-4 mr-1" />
                       Download Excel
@@ -674,7 +1319,7 @@ export default function Dashboard() {
                         size="sm"
                         className="h-9"
                         onClick={() => exportToGSheetsMutation.mutate()}
-                        disabled={!results.length || !spreadsheetId || jobStatus === "pending" || exportToGSheetsMutation.isPending}
+                        disabled={!resultPage?.total || !spreadsheetId || jobStatus === "pending" || exportToGSheetsMutation.isPending}
                       >
                         Update Google Sheet
                       </Button>
@@ -693,10 +1338,71 @@ export default function Dashboard() {
                   </div>
                 </div>
 
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-4">
+                  <Select
+                    value={resultFilters.milestone || "all"}
+                    onValueChange={(value) => handleFilterChange("milestone", value === "all" ? "" : value)}
+                    disabled={!activeJobId}
+                  >
+                    <SelectTrigger className="h-8 text-sm">
+                      <SelectValue placeholder="Filter status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All statuses</SelectItem>
+                      {(Object.keys(milestoneLabels) as MilestoneCode[]).map((code) => (
+                        <SelectItem key={code} value={code}>
+                          {code} · {milestoneLabels[code]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {(["origin", "dest", "prefix"] as const).map((key) => (
+                    <Input
+                      key={key}
+                      value={resultFilters[key]}
+                      onChange={(e) => handleFilterChange(key, e.target.value)}
+                      className="h-8 text-sm"
+                      placeholder={`Filter ${key}`}
+                      disabled={!activeJobId}
+                    />
+                  ))}
+                  {(["lastActFrom", "lastActTo"] as const).map((key) => (
+                    <Input
+                      key={key}
+                      type="date"
+                      value={resultFilters[key]}
+                      onChange={(e) => handleFilterChange(key, e.target.value)}
+                      className="h-8 text-sm"
+                      title={key === "lastActFrom" ? "Last activity from" : "Last activity to"}
+                      disabled={!activeJobId}
+                    />
+                  ))}
+                </div>
+                
+                {resultPage && resultPage.total > 0 && (
+                  <p className="text-xs text-muted-foreground mb-2">
+                    Totals: {resultPage.totals.pieces.toLocaleString()} pcs,{" "}
+                    {resultPage.totals.weightKg.toLocaleString(undefined, { maximumFractionDigits: 1 })} kg
+                  </p>
+                )}
+
                 <DataTable
-                  columns={columns}
+                  columns={tableColumns}
                   data={results}
                   emptyState={renderNoResults()}
+                  sorting={sorting}
+                  onSortingChange={handleSortingChange}
+                  pagination={{
+                    totalCount: resultPage?.total ?? 0,
+                    canPreviousPage: pageCursors.length > 0,
+                    canNextPage: !!resultPage?.nextCursor,
+                    onPreviousPage: () => setPageCursors(prev => prev.slice(0, -1)),
+                    onNextPage: () => {
+                      if (resultPage?.nextCursor) {
+                        setPageCursors(prev => [...prev, resultPage.nextCursor!]);
+                      }
+                    },
+                  }}
                 />
               </CardContent>
             </Card>
@@ -0,0 +1,32 @@
+CREATE TABLE "track_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"filename" text NOT NULL,
+	"total_count" integer NOT NULL,
+	"processed_count" integer DEFAULT 0 NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "track_results" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"mawb" text NOT NULL,
+	"prefix" text NOT NULL,
+	"awb_no" text NOT NULL,
+	"status" text,
+	"origin" text,
+	"dest" text,
+	"pcs" text,
+	"gross_wt" text,
+	"last_act" text,
+	"last_act_dt" text,
+	"do_url" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
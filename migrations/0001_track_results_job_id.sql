@@ -0,0 +1,11 @@
+ALTER TABLE "track_results" ADD COLUMN "job_id" integer;--> statement-breakpoint
+-- Results stored before this migration were not tracked by a job; they are kept under a completed job created for them
+WITH "legacy_job" AS (
+	INSERT INTO "track_jobs" ("filename", "total_count", "processed_count", "status")
+	SELECT 'Results tracked before jobs were recorded', count(*), count(*), 'completed' FROM "track_results" HAVING count(*) > 0
+	RETURNING "id"
+)
+UPDATE "track_results" SET "job_id" = (SELECT "id" FROM "legacy_job");--> statement-breakpoint
+ALTER TABLE "track_results" ALTER COLUMN "job_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "track_results" ADD CONSTRAINT "track_results_job_id_track_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."track_jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "track_results_job_id_idx" ON "track_results" USING btree ("job_id","id");
\ No newline at end of file
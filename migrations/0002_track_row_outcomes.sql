@@ -0,0 +1,14 @@
+CREATE TABLE "track_row_outcomes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"job_id" integer NOT NULL,
+	"row_number" integer NOT NULL,
+	"raw_input" text NOT NULL,
+	"outcome" text NOT NULL,
+	"error_message" text,
+	"result_id" integer,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "track_row_outcomes" ADD CONSTRAINT "track_row_outcomes_job_id_track_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."track_jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "track_row_outcomes" ADD CONSTRAINT "track_row_outcomes_result_id_track_results_id_fk" FOREIGN KEY ("result_id") REFERENCES "public"."track_results"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "track_row_outcomes_job_id_idx" ON "track_row_outcomes" USING btree ("job_id","row_number");
\ No newline at end of file
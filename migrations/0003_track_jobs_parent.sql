@@ -0,0 +1,2 @@
+ALTER TABLE "track_jobs" ADD COLUMN "parent_job_id" integer;--> statement-breakpoint
+ALTER TABLE "track_jobs" ADD CONSTRAINT "track_jobs_parent_job_id_track_jobs_id_fk" FOREIGN KEY ("parent_job_id") REFERENCES "public"."track_jobs"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
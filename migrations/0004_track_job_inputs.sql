@@ -0,0 +1,8 @@
+CREATE TABLE "track_job_inputs" (
+	"job_id" integer PRIMARY KEY NOT NULL,
+	"rows" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "track_jobs" ADD COLUMN "delay" integer DEFAULT 100 NOT NULL;--> statement-breakpoint
+ALTER TABLE "track_job_inputs" ADD CONSTRAINT "track_job_inputs_job_id_track_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."track_jobs"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
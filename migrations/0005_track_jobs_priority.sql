@@ -0,0 +1 @@
+ALTER TABLE "track_jobs" ADD COLUMN "priority" text DEFAULT 'normal' NOT NULL;
\ No newline at end of file
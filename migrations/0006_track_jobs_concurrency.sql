@@ -0,0 +1 @@
+ALTER TABLE "track_jobs" ADD COLUMN "concurrency" integer DEFAULT 1 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "track_row_outcomes" ADD COLUMN "error_class" text;--> statement-breakpoint
+ALTER TABLE "track_row_outcomes" ADD COLUMN "retry_count" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
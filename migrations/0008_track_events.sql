@@ -0,0 +1,16 @@
+CREATE TABLE "track_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"result_id" integer NOT NULL,
+	"seq" integer NOT NULL,
+	"code" text,
+	"description" text,
+	"station" text,
+	"flight" text,
+	"pieces" text,
+	"weight" text,
+	"event_time" text
+);
+--> statement-breakpoint
+ALTER TABLE "track_events" ADD CONSTRAINT "track_events_result_id_track_results_id_fk" FOREIGN KEY ("result_id") REFERENCES "public"."track_results"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "track_events_result_id_idx" ON "track_events" USING btree ("result_id","seq");--> statement-breakpoint
+CREATE INDEX "track_results_awb_idx" ON "track_results" USING btree ("prefix","awb_no");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "track_results" ADD COLUMN "milestone" text;
\ No newline at end of file
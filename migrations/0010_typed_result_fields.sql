@@ -0,0 +1,6 @@
+ALTER TABLE "track_events" ADD COLUMN "occurred_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "track_results" ADD COLUMN "pieces" integer;--> statement-breakpoint
+ALTER TABLE "track_results" ADD COLUMN "weight" double precision;--> statement-breakpoint
+ALTER TABLE "track_results" ADD COLUMN "weight_unit" text;--> statement-breakpoint
+ALTER TABLE "track_results" ADD COLUMN "weight_kg" double precision;--> statement-breakpoint
+ALTER TABLE "track_results" ADD COLUMN "last_act_at" timestamp with time zone;
\ No newline at end of file
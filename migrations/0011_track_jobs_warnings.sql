@@ -0,0 +1 @@
+ALTER TABLE "track_jobs" ADD COLUMN "warnings" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "track_documents" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"mawb" text NOT NULL,
+	"filename" text NOT NULL,
+	"content_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"checksum" text NOT NULL,
+	"storage_key" text NOT NULL,
+	"source_url" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "track_documents_mawb_checksum_idx" ON "track_documents" USING btree ("mawb","checksum");
\ No newline at end of file
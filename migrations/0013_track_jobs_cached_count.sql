@@ -0,0 +1 @@
+ALTER TABLE "track_jobs" ADD COLUMN "cached_count" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "track_jobs" ADD COLUMN "input_columns" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "track_results" ADD COLUMN "source_columns" jsonb;
\ No newline at end of file
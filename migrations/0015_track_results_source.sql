@@ -0,0 +1,3 @@
+ALTER TABLE "track_results" ADD COLUMN "source_file" text;--> statement-breakpoint
+ALTER TABLE "track_results" ADD COLUMN "source_sheet" text;--> statement-breakpoint
+ALTER TABLE "track_results" ADD COLUMN "source_row" integer;
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { buildPreflightReport, isValidCheckDigit, normalizeMAWB } from "./awb";
+
+describe("isValidCheckDigit", () => {
+  it.each([
+    ["12345675", true],
+    ["00000000", true],
+    ["99999992", true],
+    ["12345676", false],
+    ["1234567", false],
+    ["1234567a", false],
+  ])("%s is %s", (serial, valid) => {
+    expect(isValidCheckDigit(serial)).toBe(valid);
+  });
+});
+
+describe("normalizeMAWB", () => {
+  it.each([
+    ["807-12345675", undefined],
+    ["80712345675", undefined],
+    ["  807-12345675  ", undefined],
+    ["807 12345675", "Reformatted"],
+    ["807 1234 5675", "Reformatted"],
+    ["807.1234.5675", "Reformatted"],
+    ["807/12345675", "Reformatted"],
+    ["8071234567 5", "Reformatted"],
+    ["AWB 807-1234 5675 delivered", "Extracted from surrounding text"],
+    ["MAWB:80712345675", "Extracted from surrounding text"],
+  ])("reads %j as 807-12345675", (input, note) => {
+    expect(normalizeMAWB(input)).toEqual({ valid: true, mawb: "807-12345675", prefix: "807", awbNo: "12345675", note });
+  });
+
+  it("restores the leading zeros of a prefix a spreadsheet stored as a number", () => {
+    expect(normalizeMAWB("5712345675")).toEqual({
+      valid: true,
+      mawb: "057-12345675",
+      prefix: "057",
+      awbNo: "12345675",
+      note: "Restored leading zeros",
+    });
+    expect(normalizeMAWB("512345675")).toMatchObject({ valid: true, mawb: "005-12345675" });
+  });
+
+  it.each([
+    ["", "Empty MAWB"],
+    ["   ", "Empty MAWB"],
+    ["pending", "Not an AWB number"],
+    ["AWB 807-123", "Not an AWB number"],
+    ["807-1234567", "Expected a 3-digit prefix and an 8-digit serial"],
+    ["57 12345675", "Expected a 3-digit prefix and an 8-digit serial"],
+    ["807-123456750", "Expected a 3-digit prefix and an 8-digit serial"],
+    ["807-12345676", "Check digit 6 does not match, expected 5"],
+  ])("rejects %j: %s", (input, reason) => {
+    expect(normalizeMAWB(input)).toEqual({ valid: false, reason });
+  });
+});
+
+describe("buildPreflightReport", () => {
+  it("sorts rows into valid, corrected, rejected and duplicate ones", () => {
+    const report = buildPreflightReport([
+      { rowNumber: 1, mawb: "807-12345675" },
+      { rowNumber: 2, mawb: "807 1234 5686" },
+      { rowNumber: 3, mawb: "807-12345676" },
+      { rowNumber: 4, mawb: "80712345675" },
+      { rowNumber: 5, mawb: "807-12345686" },
+      { rowNumber: 6, mawb: "" },
+    ]);
+
+    expect(report).toEqual({
+      total: 6,
+      valid: 2,
+      corrected: [{ rowNumber: 2, input: "807 1234 5686", mawb: "807-12345686", note: "Reformatted" }],
+      rejected: [
+        { rowNumber: 3, input: "807-12345676", reason: "Check digit 6 does not match, expected 5" },
+        { rowNumber: 6, input: "", reason: "Empty MAWB" },
+      ],
+      duplicates: [
+        { rowNumber: 4, input: "80712345675", mawb: "807-12345675", duplicateOf: 1 },
+        { rowNumber: 5, input: "807-12345686", mawb: "807-12345686", duplicateOf: 2 },
+      ],
+    });
+  });
+
+  it("reports an empty input as empty", () => {
+    expect(buildPreflightReport([])).toEqual({ total: 0, valid: 0, corrected: [], rejected: [], duplicates: [] });
+  });
+});
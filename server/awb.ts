@@ -0,0 +1,81 @@
+import { PreflightReport, TrackingRow } from "@shared/schema";
+
+export type NormalizedAWB =
+  | { valid: true; mawb: string; prefix: string; awbNo: string; note?: string }
+  | { valid: false; reason: string };
+
+// IATA check digit: the 8th serial digit is the first seven taken as a number, modulo 7
+export function isValidCheckDigit(serial: string): boolean {
+  return /^\d{8}$/.test(serial) && parseInt(serial.slice(0, 7), 10) % 7 === parseInt(serial[7], 10);
+}
+
+// Bring a typed or pasted MAWB into the canonical "807-12345675" form and validate it.
+// Accepts digit groups split by spaces, dots or slashes ("807 1234 5675", "8071234567 5"),
+// numbers that lost leading zeros in Excel, and an AWB embedded in other text. `note` says
+// what was corrected when the input was neither "PPP-SSSSSSSS" nor "PPPSSSSSSSS"
+export function normalizeMAWB(input: string): NormalizedAWB {
+  const raw = input.trim();
+  if (!raw) return { valid: false, reason: "Empty MAWB" };
+
+  let digits = raw.replace(/[\s\-./]/g, "");
+  let note: string | undefined;
+
+  if (!/^\d+$/.test(digits)) {
+    const embedded = raw.match(/(?:^|\D)(\d{3})[\s-]?(\d{4})\s?(\d{4})(?:\D|$)/);
+    if (!embedded) {
+      return { valid: false, reason: "Not an AWB number" };
+    }
+    digits = embedded.slice(1).join("");
+    note = "Extracted from surrounding text";
+  } else if (/^\d+$/.test(raw) && (digits.length === 9 || digits.length === 10)) {
+    // A cell stored as a number drops the zeros of prefixes such as 057
+    digits = digits.padStart(11, "0");
+    note = "Restored leading zeros";
+  }
+
+  if (digits.length !== 11) {
+    return { valid: false, reason: "Expected a 3-digit prefix and an 8-digit serial" };
+  }
+
+  const prefix = digits.slice(0, 3);
+  const awbNo = digits.slice(3);
+  if (!isValidCheckDigit(awbNo)) {
+    const expected = parseInt(awbNo.slice(0, 7), 10) % 7;
+    return { valid: false, reason: `Check digit ${awbNo[7]} does not match, expected ${expected}` };
+  }
+
+  const mawb = `${prefix}-${awbNo}`;
+  if (!note && raw !== mawb && raw !== digits) {
+    note = "Reformatted";
+  }
+  return { valid: true, mawb, prefix, awbNo, note };
+}
+
+// Sort input rows into corrected, rejected and duplicate ones before any lookup is made.
+// Only the first occurrence of an AWB is tracked; later ones point back at it
+export function buildPreflightReport(rows: TrackingRow[]): PreflightReport {
+  const report: PreflightReport = { total: rows.length, valid: 0, corrected: [], rejected: [], duplicates: [] };
+  const firstRows = new Map<string, number>();
+
+  for (const { rowNumber, mawb: input } of rows) {
+    const awb = normalizeMAWB(input);
+    if (!awb.valid) {
+      report.rejected.push({ rowNumber, input, reason: awb.reason });
+      continue;
+    }
+
+    const duplicateOf = firstRows.get(awb.mawb);
+    if (duplicateOf !== undefined) {
+      report.duplicates.push({ rowNumber, input, mawb: awb.mawb, duplicateOf });
+      continue;
+    }
+    firstRows.set(awb.mawb, rowNumber);
+
+    report.valid++;
+    if (awb.note) {
+      report.corrected.push({ rowNumber, input, mawb: awb.mawb, note: awb.note });
+    }
+  }
+
+  return report;
+}
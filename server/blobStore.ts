@@ -0,0 +1,71 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+// Storage for archived files, addressed by relative keys such as "sha256/ab/ab12….pdf"
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  // Resolves undefined when nothing is stored under the key
+  get(key: string): Promise<Buffer | undefined>;
+}
+
+// Keeps blobs as files below a root directory
+export class LocalBlobStore implements BlobStore {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+
+    // Write under a temporary name first so a crash never leaves a truncated blob behind
+    const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempFile, data);
+    await fs.rename(tempFile, file);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  private resolve(key: string): string {
+    const file = path.resolve(this.rootDir, key);
+    if (!file.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return file;
+  }
+}
+
+let blobStore: BlobStore | undefined;
+
+// Replace the blob store, e.g. with one backed by object storage
+export function setBlobStore(store: BlobStore): void {
+  blobStore = store;
+}
+
+// The blob store in use; a local store under BLOB_STORE_DIR (default data/blobs) unless one was set
+export function getBlobStore(): BlobStore {
+  if (!blobStore) {
+    blobStore = new LocalBlobStore(process.env.BLOB_STORE_DIR || path.join("data", "blobs"));
+  }
+  return blobStore;
+}
+
+// Hex SHA-256 of a blob
+export function checksumOf(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+// Content-addressed key of a blob, so identical files are stored once
+export function blobKey(checksum: string, extension: string): string {
+  return `sha256/${checksum.slice(0, 2)}/${checksum}${extension}`;
+}
@@ -0,0 +1,46 @@
+import { CarrierAdapter } from './types';
+import { createSmartkargoAdapter } from './smartkargo';
+import { APP_PORT, SIMULATOR_PATH } from './smartkargoSimulator';
+
+export type { CarrierAdapter, CarrierTrackResult, ParsedTrackEvent, ParsedDocument, CarrierDocumentFile } from './types';
+export { UnsupportedCarrierError, CarrierError, CarrierParseError, CarrierSessionError, carrierResponseError } from './types';
+export { mapMilestone } from './milestones';
+export { createSmartkargoSimulator, loadSimulatorOptions, APP_PORT, SIMULATOR_PATH } from './smartkargoSimulator';
+export type { SimulatorOptions } from './smartkargoSimulator';
+export type { MilestoneRule } from './milestones';
+
+// Registered adapters keyed by AWB prefix
+const adapters = new Map<string, CarrierAdapter>();
+
+// Register an adapter for every prefix it serves
+export function registerCarrierAdapter(adapter: CarrierAdapter): void {
+  for (const prefix of adapter.prefixes) {
+    adapters.set(prefix, adapter);
+  }
+}
+
+// Find the adapter responsible for an AWB prefix
+export function getCarrierAdapter(prefix: string): CarrierAdapter | undefined {
+  return adapters.get(prefix);
+}
+
+// List all distinct registered adapters
+export function getCarrierAdapters(): CarrierAdapter[] {
+  return Array.from(new Set(adapters.values()));
+}
+
+// Portal URL from AIRASIA_BASE_URL; with CARRIER_SIMULATOR=true it defaults to the built-in simulator
+function airasiaBaseUrl(): string {
+  if (process.env.AIRASIA_BASE_URL) return process.env.AIRASIA_BASE_URL;
+  if (process.env.CARRIER_SIMULATOR === 'true') return `http://127.0.0.1:${APP_PORT}${SIMULATOR_PATH}`;
+  return 'https://airasia.smartkargo.com';
+}
+
+// AirAsia (AK 807) and AirAsia X (D7 843) share the AirAsia smartkargo portal
+registerCarrierAdapter(createSmartkargoAdapter({
+  id: 'airasia',
+  name: 'AirAsia',
+  baseUrl: airasiaBaseUrl(),
+  prefixes: ['807', '843'],
+  timeZone: 'Asia/Kuala_Lumpur'
+}));
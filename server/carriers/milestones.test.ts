@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { mapMilestone } from "./milestones";
+import { SMARTKARGO_MILESTONES } from "./smartkargo";
+
+describe("mapMilestone", () => {
+  it.each([
+    ["Booked", "BKD"],
+    ["Received from shipper", "RCS"],
+    ["Accepted at origin", "RCS"],
+    ["Manifested", "MAN"],
+    ["Departed", "DEP"],
+    ["In transit", "DEP"],
+    ["Arrived", "ARR"],
+    ["Received from flight", "RCF"],
+    ["Breakdown completed", "RCF"],
+    ["Notified to consignee", "NFD"],
+    ["Ready for collection", "NFD"],
+    ["Ready for pick up", "NFD"],
+    ["Ready for delivery", "NFD"],
+    ["Ready for delivery at destination", "NFD"],
+    ["Delivered", "DLV"],
+    ["Delivered to consignee", "DLV"],
+    ["Documents delivered", "AWD"],
+    ["Delivery order issued", "AWD"],
+    ["Offloaded", "EXC"],
+    ["Delivery delayed", "EXC"],
+  ])("maps %s to %s", (status, code) => {
+    expect(mapMilestone(SMARTKARGO_MILESTONES, status)).toBe(code);
+  });
+
+  it("keeps statuses that already are a milestone code", () => {
+    expect(mapMilestone(SMARTKARGO_MILESTONES, " dlv ")).toBe("DLV");
+  });
+
+  it.each([null, undefined, "", "   ", "Status unavailable"])("maps %j to null", (status) => {
+    expect(mapMilestone(SMARTKARGO_MILESTONES, status)).toBeNull();
+  });
+});
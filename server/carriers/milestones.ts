@@ -0,0 +1,16 @@
+import { milestoneCode, type MilestoneCode } from '@shared/schema';
+
+// Maps carrier status text to a canonical milestone; the first matching rule wins
+export type MilestoneRule = [RegExp, MilestoneCode];
+
+// Map a carrier's free-text status to its canonical milestone. Statuses that already are a
+// milestone code map to themselves; text no rule recognises maps to null
+export function mapMilestone(rules: MilestoneRule[], status: string | null | undefined): MilestoneCode | null {
+  const text = (status ?? '').trim();
+  if (!text) return null;
+  
+  const code = milestoneCode.safeParse(text.toUpperCase());
+  if (code.success) return code.data;
+  
+  return rules.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+}
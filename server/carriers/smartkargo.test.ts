@@ -0,0 +1,35 @@
+import fs from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { CarrierParseError } from "./types";
+import { parseTrackingHTML } from "./smartkargo";
+
+// Result pages as the portal serves them, each next to the parse it is expected to give. Pages
+// recorded under PARSER_RECORDINGS_DIR are added here once the parser handles them
+const fixtureDir = path.join(__dirname, "fixtures", "smartkargo");
+
+const readFixture = (file: string) => fs.readFileSync(path.join(fixtureDir, file), "utf-8");
+
+describe("parseTrackingHTML", () => {
+  it.each(["result", "unknown-awb", "delivery-orders", "history"])("parses the %s page", (name) => {
+    expect(parseTrackingHTML(readFixture(`${name}.html`))).toEqual(JSON.parse(readFixture(`${name}.json`)));
+  });
+
+  it("rejects a redesigned page that lacks the result anchors", () => {
+    const html = readFixture("redesigned.html");
+
+    let error: unknown;
+    try {
+      parseTrackingHTML(html);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(CarrierParseError);
+    expect(error).toMatchObject({
+      errorClass: "parse",
+      missingAnchors: ["#lblLatestActivity", "#lblOrigin", "#lblDestination"],
+      html,
+    });
+  });
+});
@@ -0,0 +1,413 @@
+import * as cheerio from 'cheerio';
+import fetch, { Response } from 'node-fetch';
+import { TrackResult, maxJobConcurrency } from '@shared/schema';
+import { CarrierAdapter, CarrierDocumentFile, CarrierError, CarrierParseError, CarrierSessionError, CarrierTrackResult, ParsedDocument, ParsedTrackEvent, carrierResponseError } from './types';
+import { MilestoneRule } from './milestones';
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+export interface SmartkargoOptions {
+  id: string;
+  name: string;
+  // Base URL of the carrier's smartkargo portal, e.g. https://airasia.smartkargo.com
+  baseUrl: string;
+  prefixes: string[];
+  // Zone the portal prints times in when the station's own zone is unknown
+  timeZone: string;
+  // Most portal sessions open at once; defaults to one per job worker
+  sessions?: number;
+}
+
+// Latest activity wording of smartkargo portals. Order matters: exceptions win over everything,
+// document delivery over cargo delivery, "ready for delivery" over delivery and receipt from a
+// flight over receipt from the shipper
+export const SMARTKARGO_MILESTONES: MilestoneRule[] = [
+  [/offload|hold|damage|missing|short|discrepan|cancel|reject|delay/i, 'EXC'],
+  [/document.*deliver|delivery order/i, 'AWD'],
+  [/notif|ready for (collection|pick|delivery)/i, 'NFD'],
+  [/deliver/i, 'DLV'],
+  [/received from flight|breakdown|check[- ]?in at destination/i, 'RCF'],
+  [/arriv|landed/i, 'ARR'],
+  [/depart|airborne|in transit/i, 'DEP'],
+  [/manifest/i, 'MAN'],
+  [/receiv|accept/i, 'RCS'],
+  [/book/i, 'BKD']
+];
+
+// ASP.NET drops idle sessions after 20 minutes; refresh a little before that
+const SESSION_IDLE_MS = 15 * 60 * 1000;
+
+// Server error pages ASP.NET shows for a stale VIEWSTATE or an expired session
+const SESSION_REJECTED = /viewstate|session|state information is invalid/i;
+
+// Document links whose session is remembered until they are downloaded
+const MAX_DOCUMENT_LINKS = 1000;
+
+interface SessionState {
+  viewState: string;
+  viewStateGenerator: string;
+  lastUsed: number;
+}
+
+// Cookies and the latest VIEWSTATE of one FrmAWBTracking.aspx session. Each postback returns the
+// page with a fresh VIEWSTATE the next postback must echo, so a session serves one lookup at a time
+// (see SmartkargoSessionPool). The form is only fetched again when the session is new, has gone
+// idle, or a postback is rejected
+export class SmartkargoSession {
+  private cookies = new Map<string, string>();
+  private state?: SessionState;
+
+  constructor(private trackingUrl: string) {}
+
+  // Post a tracking lookup, starting the session over once if the portal rejects it
+  async track(prefix: string, awbNo: string, signal?: AbortSignal): Promise<string> {
+    const html = await this.postback(await this.current(signal), prefix, awbNo, signal);
+    if (html !== undefined) return html;
+
+    // A session we just opened being turned down points at the portal rather than our session
+    const retryHtml = await this.postback(await this.loadForm(signal), prefix, awbNo, signal);
+    if (retryHtml === undefined) {
+      throw new CarrierError('transient', 'Tracking postback was rejected by a fresh session');
+    }
+    return retryHtml;
+  }
+
+  // Download a file linked from a result page; the portal only serves it within the session
+  async download(url: string, signal?: AbortSignal): Promise<CarrierDocumentFile> {
+    const response = await fetch(url, {
+      headers: {
+        'Referer': this.trackingUrl,
+        'User-Agent': USER_AGENT,
+        'Cookie': this.cookieHeader()
+      },
+      signal
+    });
+    
+    if (!response.ok) {
+      throw carrierResponseError(response.status, `Document download failed: ${response.status} ${response.statusText}`);
+    }
+    
+    const data = Buffer.from(await response.arrayBuffer());
+    
+    // An expired link is answered with an HTML page rather than an error status
+    if (data.subarray(0, 5).toString('latin1') !== '%PDF-') {
+      throw new CarrierError('permanent', `Document at ${url} is not a PDF`);
+    }
+    
+    return { data, contentType: 'application/pdf' };
+  }
+
+  private async current(signal?: AbortSignal): Promise<SessionState> {
+    if (this.state && Date.now() - this.state.lastUsed < SESSION_IDLE_MS) {
+      return this.state;
+    }
+    return this.loadForm(signal);
+  }
+
+  // Load the tracking form in a new session
+  private async loadForm(signal?: AbortSignal): Promise<SessionState> {
+    this.cookies.clear();
+    this.state = undefined;
+
+    // First request to get VIEWSTATE
+    const initialResponse = await fetch(this.trackingUrl, {
+      headers: {
+        'User-Agent': USER_AGENT
+      },
+      signal
+    });
+    
+    if (!initialResponse.ok) {
+      throw carrierResponseError(initialResponse.status, `Failed to access tracking site: ${initialResponse.status} ${initialResponse.statusText}`);
+    }
+    
+    this.storeCookies(initialResponse);
+    const state = extractViewState(await initialResponse.text());
+    
+    if (!state) {
+      throw new CarrierError('permanent', 'Could not extract VIEWSTATE from initial request');
+    }
+    
+    this.state = state;
+    return state;
+  }
+
+  // Returns the result page, or undefined when the page rejected the postback
+  private async postback(state: SessionState, prefix: string, awbNo: string, signal?: AbortSignal): Promise<string | undefined> {
+    // Build form data for tracking request
+    const formData = new URLSearchParams();
+    formData.append('__VIEWSTATE', state.viewState);
+    formData.append('__VIEWSTATEGENERATOR', state.viewStateGenerator);
+    formData.append('txtPrefix', prefix);
+    formData.append('TextBoxAWBno', awbNo);
+    formData.append('ButtonGO', 'Track');
+    formData.append('ToolkitScriptManager1_HiddenField', '');
+    
+    // Make tracking request
+    const trackingResponse = await fetch(this.trackingUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Referer': this.trackingUrl,
+        'User-Agent': USER_AGENT,
+        'Cookie': this.cookieHeader()
+      },
+      body: formData.toString(),
+      signal
+    });
+    
+    // ASP.NET answers an invalid VIEWSTATE or an expired session with a server error naming it;
+    // any other server error is the portal failing
+    if (trackingResponse.status === 500) {
+      const errorPage = await trackingResponse.text();
+      if (SESSION_REJECTED.test(errorPage)) return undefined;
+      throw carrierResponseError(500, `Tracking request failed: 500 ${trackingResponse.statusText}`);
+    }
+    
+    if (!trackingResponse.ok) {
+      throw carrierResponseError(trackingResponse.status, `Tracking request failed: ${trackingResponse.status} ${trackingResponse.statusText}`);
+    }
+    
+    this.storeCookies(trackingResponse);
+    const trackingHtml = await trackingResponse.text();
+    
+    // Anything but the tracking form (e.g. an error or login page) means the postback was rejected
+    const nextState = extractViewState(trackingHtml);
+    if (!nextState) return undefined;
+    
+    this.state = nextState;
+    return trackingHtml;
+  }
+
+  private storeCookies(response: Response): void {
+    for (const cookie of response.headers.raw()['set-cookie'] ?? []) {
+      const [pair] = cookie.split(';');
+      const separator = pair.indexOf('=');
+      if (separator > 0) {
+        this.cookies.set(pair.slice(0, separator).trim(), pair.slice(separator + 1).trim());
+      }
+    }
+  }
+
+  private cookieHeader(): string {
+    return Array.from(this.cookies, ([name, value]) => `${name}=${value}`).join('; ');
+  }
+}
+
+// Sessions of one portal, each lent to one lookup at a time. Up to `size` sessions are opened;
+// further lookups wait for one to come free, giving up when their signal aborts
+export class SmartkargoSessionPool {
+  private idle: SmartkargoSession[] = [];
+  private waiting: ((session: SmartkargoSession) => void)[] = [];
+  private opened = 0;
+
+  constructor(private trackingUrl: string, private size: number) {}
+
+  async use<T>(lookup: (session: SmartkargoSession) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const session = await this.acquire(signal);
+    try {
+      return await lookup(session);
+    } finally {
+      this.release(session);
+    }
+  }
+
+  private acquire(signal?: AbortSignal): Promise<SmartkargoSession> {
+    // The most recently used session is the least likely to have gone idle
+    const idle = this.idle.pop();
+    if (idle) return Promise.resolve(idle);
+
+    if (this.opened < this.size) {
+      this.opened++;
+      return Promise.resolve(new SmartkargoSession(this.trackingUrl));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter = (session: SmartkargoSession) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(session);
+      };
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(queued => queued !== waiter);
+        reject(new CarrierSessionError('Timed out waiting for a free carrier session'));
+      };
+
+      if (signal?.aborted) return onAbort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiting.push(waiter);
+    });
+  }
+
+  private release(session: SmartkargoSession): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next(session);
+    } else {
+      this.idle.push(session);
+    }
+  }
+}
+
+// Extract VIEWSTATE and VIEWSTATEGENERATOR values from a tracking page
+function extractViewState(html: string): SessionState | undefined {
+  const $ = cheerio.load(html);
+  const viewState = $('#__VIEWSTATE').val();
+  const viewStateGenerator = $('#__VIEWSTATEGENERATOR').val();
+  
+  if (!viewState) return undefined;
+  
+  return {
+    viewState: viewState.toString(),
+    viewStateGenerator: viewStateGenerator ? viewStateGenerator.toString() : '',
+    lastUsed: Date.now()
+  };
+}
+
+// Create an adapter for a carrier hosted on the smartkargo platform
+export function createSmartkargoAdapter(options: SmartkargoOptions): CarrierAdapter {
+  const trackingUrl = `${options.baseUrl}/FrmAWBTracking.aspx`;
+  const sessions = new SmartkargoSessionPool(trackingUrl, options.sessions ?? maxJobConcurrency);
+
+  // Session each document link was listed in, as the portal only serves a file within it
+  const documentSessions = new Map<string, SmartkargoSession>();
+
+  return {
+    id: options.id,
+    name: options.name,
+    prefixes: options.prefixes,
+    host: new URL(options.baseUrl).host,
+    milestones: SMARTKARGO_MILESTONES,
+    timeZone: options.timeZone,
+
+    async track(prefix: string, awbNo: string, signal?: AbortSignal): Promise<CarrierTrackResult> {
+      const { trackingHtml, session } = await sessions.use(async session => ({
+        trackingHtml: await session.track(prefix, awbNo, signal),
+        session
+      }), signal);
+      const result = parseTrackingHTML(trackingHtml);
+      
+      // The portal answers unknown AWBs with an empty result panel
+      if (!result.status && !result.origin && !result.dest) {
+        throw new CarrierError('permanent', `AWB ${prefix}-${awbNo} not found`);
+      }
+      
+      // Document links are relative to the tracking page
+      result.documents = result.documents?.map(document => ({
+        ...document,
+        url: new URL(document.url, trackingUrl).href
+      }));
+      for (const document of result.documents ?? []) {
+        documentSessions.delete(document.url);
+        documentSessions.set(document.url, session);
+      }
+      // Links are downloaded right after the lookup; forget the oldest ones
+      for (const url of Array.from(documentSessions.keys()).slice(0, Math.max(0, documentSessions.size - MAX_DOCUMENT_LINKS))) {
+        documentSessions.delete(url);
+      }
+      return result;
+    },
+
+    downloadDocument(url: string, signal?: AbortSignal): Promise<CarrierDocumentFile> {
+      const session = documentSessions.get(url);
+      return session
+        ? session.download(url, signal)
+        : sessions.use(pooled => pooled.download(url, signal), signal);
+    }
+  };
+}
+
+// Grid listing every milestone of the AWB, oldest first
+const HISTORY_TABLE = '#gvAWBHistory';
+
+type HistoryField = 'code' | 'description' | 'station' | 'flight' | 'pieces' | 'weight' | 'eventTime';
+
+// Event fields keyed by the header captions the history grid uses for them
+const HISTORY_COLUMNS: [HistoryField, RegExp][] = [
+  ['code', /^(status|code|milestone)$/i],
+  ['description', /description|activity|remarks/i],
+  ['station', /station|location|airport/i],
+  ['flight', /flight/i],
+  ['pieces', /^(pcs|pieces)$/i],
+  ['weight', /weight|wt/i],
+  ['eventTime', /date|time/i]
+];
+
+// Labels every result page carries, even when they are empty
+export const RESULT_ANCHORS = [
+  '#lblLatestActivity',
+  '#lblOrigin',
+  '#lblDestination',
+  '#lblPcs',
+  '#lblGrossWt',
+  '#lblLastActivityDescription',
+  '#lblLastActivityDate'
+];
+
+// Parse tracking HTML results. A page missing any of the result anchors is one the parser no
+// longer understands; it is reported as a CarrierParseError instead of a blank result
+export function parseTrackingHTML(html: string): CarrierTrackResult {
+  const $ = cheerio.load(html);
+  
+  const missingAnchors = RESULT_ANCHORS.filter(anchor => $(anchor).length === 0);
+  if (missingAnchors.length > 0) {
+    throw new CarrierParseError(missingAnchors, html);
+  }
+  
+  const result: CarrierTrackResult = {
+    status: $('#lblLatestActivity').text().trim(),
+    origin: $('#lblOrigin').text().trim(),
+    dest: $('#lblDestination').text().trim(),
+    pcs: $('#lblPcs').text().trim(),
+    grossWt: $('#lblGrossWt').text().trim(),
+    lastAct: $('#lblLastActivityDescription').text().trim(),
+    lastActDt: $('#lblLastActivityDate').text().trim(),
+    doUrl: ''
+  };
+  
+  // Find Delivery Order PDF links; the last one listed is the current DO
+  const documents: ParsedDocument[] = [];
+  $('#gvDeliveryOrders a').each((_idx, element) => {
+    const href = $(element).attr('href');
+    if (href && href.endsWith('.pdf')) {
+      result.doUrl = href;
+      documents.push({
+        url: href,
+        filename: href.split(/[/\\]/).pop() || 'delivery-order.pdf'
+      });
+    }
+  });
+  
+  result.documents = documents;
+  result.events = parseHistoryTable($);
+  return result;
+}
+
+// Parse the milestone history grid, matching columns by their header captions
+function parseHistoryTable($: cheerio.CheerioAPI): ParsedTrackEvent[] {
+  const rows = $(`${HISTORY_TABLE} tr`).toArray();
+  if (rows.length === 0) return [];
+  
+  // Map each header cell to the first event field it matches
+  const fields = $(rows[0]).find('th, td').toArray().map(cell => {
+    const caption = $(cell).text().trim();
+    return HISTORY_COLUMNS.find(([, pattern]) => pattern.test(caption))?.[0];
+  });
+  
+  const events: ParsedTrackEvent[] = [];
+  for (const row of rows.slice(1)) {
+    const cells = $(row).find('td').toArray();
+    if (cells.length === 0) continue;
+    
+    const event: ParsedTrackEvent = { seq: events.length };
+    cells.forEach((cell, idx) => {
+      const field = fields[idx];
+      const value = $(cell).text().trim();
+      if (field && value && !event[field]) {
+        event[field] = value;
+      }
+    });
+    events.push(event);
+  }
+  
+  return events;
+}
@@ -0,0 +1,43 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { afterEach, describe, expect, it } from "vitest";
+import { createSmartkargoSimulator, type SimulatorOptions } from "./smartkargoSimulator";
+
+describe("smartkargo simulator", () => {
+  let server: Server | undefined;
+
+  afterEach(() => {
+    server?.close();
+    server = undefined;
+  });
+
+  // Open a session and post two lookups that both echo the VIEWSTATE of the form page
+  async function postTwiceFromForm(options: SimulatorOptions): Promise<number[]> {
+    server = createSmartkargoSimulator(options).listen(0, "127.0.0.1");
+    await new Promise((resolve) => server!.once("listening", resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/FrmAWBTracking.aspx`;
+
+    const form = await fetch(url);
+    const cookie = form.headers.get("set-cookie")!.split(";")[0];
+    const viewState = /id="__VIEWSTATE" value="([^"]*)"/.exec(await form.text())![1];
+
+    const statuses: number[] = [];
+    for (const awbNo of ["12345675", "12345686"]) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded", Cookie: cookie },
+        body: new URLSearchParams({ __VIEWSTATE: viewState, txtPrefix: "807", TextBoxAWBno: awbNo }).toString(),
+      });
+      statuses.push(response.status);
+    }
+    return statuses;
+  }
+
+  it("accepts postbacks echoing one of the session's recent VIEWSTATEs", async () => {
+    expect(await postTwiceFromForm({})).toEqual([200, 200]);
+  });
+
+  it("rejects an older VIEWSTATE when only the latest is accepted", async () => {
+    expect(await postTwiceFromForm({ viewStateHistory: 1 })).toEqual([200, 500]);
+  });
+});
@@ -0,0 +1,204 @@
+import express, { Request, Response } from 'express';
+import { randomBytes } from 'crypto';
+import fs from 'fs';
+import { format } from 'date-fns';
+
+// The app's port; the simulator is served from it when CARRIER_SIMULATOR=true
+export const APP_PORT = 5000;
+
+// Where the simulator is mounted when CARRIER_SIMULATOR=true
+export const SIMULATOR_PATH = '/simulator/smartkargo';
+
+export interface SimulatorOptions {
+  // Each response is delayed by a random time between these bounds
+  latencyMs?: [number, number];
+  // Share of lookups answered with a server error page
+  failureRate?: number;
+  // Latest activity texts an AWB ("807-12345675") goes through, one step per lookup; the last
+  // step repeats. An empty text answers the lookup as an unknown AWB
+  progressions?: Record<string, string[]>;
+  // Progression of every AWB not listed in `progressions`
+  defaultProgression?: string[];
+  // How many of a session's latest VIEWSTATEs a postback may echo. Defaults to 8, so a session
+  // serving a few lookups at once keeps working; 1 rejects any postback made from an older page
+  viewStateHistory?: number;
+}
+
+const DEFAULT_PROGRESSION = [
+  'Booked',
+  'Received from shipper',
+  'Manifested',
+  'Departed',
+  'Arrived',
+  'Received from flight',
+  'Notified to consignee',
+  'Delivered'
+];
+
+// Delivery orders are only listed once the cargo can be collected
+const DOCUMENT_STATUS = /notif|deliver/i;
+
+// ASP.NET drops a session after 20 idle minutes
+const SESSION_IDLE_MS = 20 * 60 * 1000;
+
+const DEFAULT_VIEWSTATE_HISTORY = 8;
+
+interface SimulatedSession {
+  // Latest VIEWSTATE last
+  viewStates: string[];
+  lastUsed: number;
+}
+
+// Read the simulator settings: a JSON file of SimulatorOptions named by SIMULATOR_CONFIG, with
+// SIMULATOR_LATENCY_MS ("min-max"), SIMULATOR_FAILURE_RATE and SIMULATOR_VIEWSTATE_HISTORY taking
+// precedence
+export function loadSimulatorOptions(): SimulatorOptions {
+  const options: SimulatorOptions = process.env.SIMULATOR_CONFIG
+    ? JSON.parse(fs.readFileSync(process.env.SIMULATOR_CONFIG, 'utf-8'))
+    : {};
+
+  if (process.env.SIMULATOR_LATENCY_MS) {
+    const [min, max = min] = process.env.SIMULATOR_LATENCY_MS.split('-').map(Number);
+    options.latencyMs = [min, max];
+  }
+  if (process.env.SIMULATOR_FAILURE_RATE) {
+    options.failureRate = parseFloat(process.env.SIMULATOR_FAILURE_RATE);
+  }
+  if (process.env.SIMULATOR_VIEWSTATE_HISTORY) {
+    options.viewStateHistory = parseInt(process.env.SIMULATOR_VIEWSTATE_HISTORY);
+  }
+  return options;
+}
+
+// An Express app answering like a smartkargo FrmAWBTracking.aspx portal: the form is served with
+// a session cookie and VIEWSTATE, postbacks must echo both, and results carry the same labels,
+// history grid and delivery order links as the real page
+export function createSmartkargoSimulator(options: SimulatorOptions = {}): express.Express {
+  const app = express();
+  const sessions = new Map<string, SimulatedSession>();
+  const lookups = new Map<string, number>();
+  const [minLatency, maxLatency] = options.latencyMs ?? [0, 0];
+  const viewStateHistory = Math.max(1, options.viewStateHistory ?? DEFAULT_VIEWSTATE_HISTORY);
+
+  app.use(express.urlencoded({ extended: false }));
+
+  // Simulated network and server time
+  app.use((_req, _res, next) => {
+    setTimeout(next, minLatency + Math.random() * (maxLatency - minLatency));
+  });
+
+  app.get('/FrmAWBTracking.aspx', (_req, res) => {
+    const sessionId = randomBytes(12).toString('hex');
+    const session = { viewStates: [newViewState()], lastUsed: Date.now() };
+    sessions.set(sessionId, session);
+    pruneSessions(sessions);
+
+    res.cookie('ASP.NET_SessionId', sessionId, { httpOnly: true });
+    res.type('html').send(trackingPage(session.viewStates[0], ''));
+  });
+
+  app.post('/FrmAWBTracking.aspx', (req, res) => {
+    const session = currentSession(req, sessions);
+
+    // Like ASP.NET, an unknown session or a stale VIEWSTATE fails the postback
+    if (!session || !session.viewStates.includes(req.body.__VIEWSTATE)) {
+      return serverError(res, 'Validation of viewstate MAC failed.');
+    }
+    if (Math.random() < (options.failureRate ?? 0)) {
+      return serverError(res, 'Timeout expired. The timeout period elapsed prior to completion of the operation.');
+    }
+
+    const mawb = `${req.body.txtPrefix}-${req.body.TextBoxAWBno}`;
+    const progression = options.progressions?.[mawb] ?? options.defaultProgression ?? DEFAULT_PROGRESSION;
+    const step = Math.min(lookups.get(mawb) ?? 0, progression.length - 1);
+    lookups.set(mawb, step + 1);
+
+    const viewState = newViewState();
+    session.viewStates = [...session.viewStates, viewState].slice(-viewStateHistory);
+    session.lastUsed = Date.now();
+    res.type('html').send(trackingPage(viewState, resultPanel(mawb, progression.slice(0, step + 1))));
+  });
+
+  // Delivery order PDFs are only served within a session, like the portal's short-lived links
+  app.get('/Docs/:file', (req, res) => {
+    if (!currentSession(req, sessions)) {
+      return res.type('html').send('<html><body><h2>Your session has expired.</h2></body></html>');
+    }
+    res.type('application/pdf').send(Buffer.from(
+      `%PDF-1.4\n% Simulated delivery order ${req.params.file}\n%%EOF\n`,
+      'latin1'
+    ));
+  });
+
+  return app;
+}
+
+function newViewState(): string {
+  return randomBytes(24).toString('base64');
+}
+
+function currentSession(req: Request, sessions: Map<string, SimulatedSession>): SimulatedSession | undefined {
+  const sessionId = /ASP\.NET_SessionId=([^;]+)/.exec(req.headers.cookie ?? '')?.[1];
+  const session = sessionId ? sessions.get(sessionId) : undefined;
+  return session && Date.now() - session.lastUsed < SESSION_IDLE_MS ? session : undefined;
+}
+
+function pruneSessions(sessions: Map<string, SimulatedSession>): void {
+  sessions.forEach((session, sessionId) => {
+    if (Date.now() - session.lastUsed >= SESSION_IDLE_MS) {
+      sessions.delete(sessionId);
+    }
+  });
+}
+
+function serverError(res: Response, message: string): void {
+  res.status(500).type('html').send(
+    `<html><head><title>Runtime Error</title></head><body><h1>Server Error in '/' Application.</h1><h2><i>${message}</i></h2></body></html>`
+  );
+}
+
+function trackingPage(viewState: string, panel: string): string {
+  return `<html><body><form method="post" action="./FrmAWBTracking.aspx" id="form1">
+<input type="hidden" name="__VIEWSTATE" id="__VIEWSTATE" value="${viewState}" />
+<input type="hidden" name="__VIEWSTATEGENERATOR" id="__VIEWSTATEGENERATOR" value="A1B2C3D4" />
+<input name="txtPrefix" type="text" id="txtPrefix" />
+<input name="TextBoxAWBno" type="text" id="TextBoxAWBno" />
+<input type="submit" name="ButtonGO" value="Track" id="ButtonGO" />
+${panel}
+</form></body></html>`;
+}
+
+// Result labels for the steps reached so far; the labels stay empty for an unknown AWB
+function resultPanel(mawb: string, steps: string[]): string {
+  const status = steps[steps.length - 1] ?? '';
+  const found = status !== '';
+  const now = Date.now();
+
+  // One history row per step, an hour apart and ending now
+  const events = found ? steps.map((step, idx) => ({
+    status: step,
+    station: idx < steps.length / 2 ? 'KUL' : 'SIN',
+    time: format(new Date(now - (steps.length - 1 - idx) * 3600000), 'dd MMM yyyy HH:mm')
+  })) : [];
+  const latest = events[events.length - 1];
+
+  const label = (id: string, value: string) => `<span id="${id}">${value}</span>`;
+  const history = events.map(event =>
+    `<tr><td>${event.status}</td><td>${event.station}</td><td>AK 701</td><td>2</td><td>45.5</td><td>${event.time}</td></tr>`
+  ).join('');
+  const documents = found && DOCUMENT_STATUS.test(status)
+    ? `<table id="gvDeliveryOrders"><tr><td><a href="Docs/DO_${mawb}.pdf">DO_${mawb}.pdf</a></td></tr></table>`
+    : '';
+
+  return [
+    label('lblLatestActivity', found ? status : ''),
+    label('lblOrigin', found ? 'KUL' : ''),
+    label('lblDestination', found ? 'SIN' : ''),
+    label('lblPcs', found ? '2' : ''),
+    label('lblGrossWt', found ? '45.5 KG' : ''),
+    label('lblLastActivityDescription', latest ? latest.status : ''),
+    label('lblLastActivityDate', latest ? latest.time : ''),
+    found ? `<table id="gvAWBHistory"><tr><th>Description</th><th>Station</th><th>Flight</th><th>Pcs</th><th>Weight</th><th>Date</th></tr>${history}</table>` : '',
+    documents
+  ].join('\n');
+}
@@ -0,0 +1,97 @@
+import { CarrierErrorClass, InsertTrackEvent, TrackResult } from '@shared/schema';
+import { MilestoneRule } from './milestones';
+
+// Milestone parsed from the carrier page, before it is linked to a stored result
+export type ParsedTrackEvent = Omit<InsertTrackEvent, 'resultId'>;
+
+// A document linked from the carrier page, e.g. a delivery order PDF
+export interface ParsedDocument {
+  // Absolute URL the carrier serves the file from; often only valid for a short while
+  url: string;
+  filename: string;
+}
+
+// A document as downloaded from the carrier
+export interface CarrierDocumentFile {
+  data: Buffer;
+  contentType: string;
+}
+
+// Fields scraped for an AWB, plus its milestone history and documents when the carrier lists them
+export type CarrierTrackResult = Partial<TrackResult> & { events?: ParsedTrackEvent[]; documents?: ParsedDocument[] };
+
+// A tracking integration for one carrier website, serving one or more AWB prefixes
+export interface CarrierAdapter {
+  // Short identifier used in logs and API responses
+  id: string;
+  // Human readable carrier name
+  name: string;
+  // 3-digit IATA airline prefixes handled by this adapter
+  prefixes: string[];
+  // Host the adapter scrapes; lookups against one host share a rate limit
+  host: string;
+  // Rules mapping the carrier's status text to canonical milestones
+  milestones: MilestoneRule[];
+  // IANA zone the carrier's times are read in when the station's zone is unknown
+  timeZone: string;
+  // Look up a single AWB on the carrier site; the signal aborts the lookup when it times out.
+  // Failures should be thrown as a CarrierError so they are retried or reported correctly
+  track(prefix: string, awbNo: string, signal?: AbortSignal): Promise<CarrierTrackResult>;
+  // Download a document listed in a tracking result, for carriers whose results link to any
+  downloadDocument?(url: string, signal?: AbortSignal): Promise<CarrierDocumentFile>;
+}
+
+// Thrown when no adapter is registered for an AWB prefix
+export class UnsupportedCarrierError extends Error {
+  prefix: string;
+
+  constructor(prefix: string) {
+    super(`Unsupported carrier for prefix ${prefix}`);
+    this.name = 'UnsupportedCarrierError';
+    this.prefix = prefix;
+  }
+}
+
+// A failed carrier lookup, classified so the caller knows whether retrying can help
+export class CarrierError extends Error {
+  errorClass: CarrierErrorClass;
+  // Set once retries are exhausted
+  retries = 0;
+
+  constructor(errorClass: CarrierErrorClass, message: string) {
+    super(message);
+    this.name = 'CarrierError';
+    this.errorClass = errorClass;
+  }
+}
+
+// Thrown when a carrier page lacks the elements its parser relies on, e.g. after a redesign.
+// Carries the page so it can be recorded for the parser to be fixed against
+export class CarrierParseError extends CarrierError {
+  missingAnchors: string[];
+  html: string;
+
+  constructor(missingAnchors: string[], html: string) {
+    super('parse', `Tracking page is missing ${missingAnchors.join(', ')}`);
+    this.name = 'CarrierParseError';
+    this.missingAnchors = missingAnchors;
+    this.html = html;
+  }
+}
+
+// Thrown when a lookup gets no carrier session to run in, e.g. every session stayed busy until the
+// lookup timed out. Worth retrying, but says nothing about whether the carrier is healthy
+export class CarrierSessionError extends CarrierError {
+  constructor(message: string) {
+    super('transient', message);
+    this.name = 'CarrierSessionError';
+  }
+}
+
+// Classify a failed carrier HTTP response: 403/429 mean the carrier is refusing us,
+// server errors are worth retrying and anything else will fail the same way again
+export function carrierResponseError(status: number, message: string): CarrierError {
+  if (status === 403 || status === 429) return new CarrierError('blocked', message);
+  if (status >= 500) return new CarrierError('transient', message);
+  return new CarrierError('permanent', message);
+}
@@ -0,0 +1,53 @@
+export type CircuitState = "closed" | "open";
+
+// Opens after `threshold` consecutive failures. While open, `probe` is retried every
+// `probeIntervalMs` and the circuit closes once a probe or any other request succeeds
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private probeTimer?: NodeJS.Timeout;
+  state: CircuitState = "closed";
+
+  constructor(
+    private threshold: number,
+    private probeIntervalMs: number,
+    private onStateChange: (state: CircuitState) => void,
+  ) {}
+
+  get isOpen(): boolean {
+    return this.state === "open";
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.state === "open") {
+      clearTimeout(this.probeTimer);
+      this.probeTimer = undefined;
+      this.state = "closed";
+      this.onStateChange("closed");
+    }
+  }
+
+  // Count a failure; `probe` should reject for as long as the remote side is still down
+  recordFailure(probe: () => Promise<void>): void {
+    this.consecutiveFailures++;
+    if (this.state === "closed" && this.consecutiveFailures >= this.threshold) {
+      this.state = "open";
+      this.onStateChange("open");
+      this.scheduleProbe(probe);
+    }
+  }
+
+  private scheduleProbe(probe: () => Promise<void>): void {
+    this.probeTimer = setTimeout(async () => {
+      this.probeTimer = undefined;
+      try {
+        await probe();
+        this.recordSuccess();
+      } catch {
+        if (this.state === "open" && !this.probeTimer) this.scheduleProbe(probe);
+      }
+    }, this.probeIntervalMs);
+    // Never keep the process alive just to probe
+    this.probeTimer.unref();
+  }
+}
@@ -0,0 +1,26 @@
+import pg from "pg";
+import path from "path";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import * as schema from "@shared/schema";
+
+export type Database = ReturnType<typeof createDatabase>;
+
+// Connect drizzle to a PostgreSQL database
+export function createDatabase(connectionString: string) {
+  const pool = new pg.Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+// Apply pending SQL migrations from the top-level migrations folder.
+// Resolved from this file so it works both from server/ and the bundled dist/
+export async function migrateDatabase(database: Database): Promise<void> {
+  await migrate(database, {
+    migrationsFolder: path.resolve(import.meta.dirname, "..", "migrations"),
+  });
+}
+
+// Shared database, only available when DATABASE_URL is configured
+export const db = process.env.DATABASE_URL
+  ? createDatabase(process.env.DATABASE_URL)
+  : undefined;
@@ -0,0 +1,55 @@
+import path from "path";
+import { TrackDocument } from "@shared/schema";
+import { CarrierAdapter, ParsedDocument } from "./carriers";
+import { blobKey, checksumOf, getBlobStore } from "./blobStore";
+import { getHostRateLimiter } from "./rateLimit";
+import { getRetryPolicy, withRetry } from "./retry";
+import { storage } from "./storage";
+
+// Stable link to an archived document, served by GET /api/shipments/:mawb/documents/:id
+export function documentUrl(mawb: string, documentId: number): string {
+  return `/api/shipments/${mawb}/documents/${documentId}`;
+}
+
+// Download the documents listed for an AWB and archive them in the blob store, in listing order.
+// A document that cannot be downloaded is reported through onError and left out
+export async function archiveDocuments(
+  adapter: CarrierAdapter,
+  mawb: string,
+  documents: ParsedDocument[],
+  onError?: (document: ParsedDocument, message: string) => void,
+): Promise<TrackDocument[]> {
+  const downloadDocument = adapter.downloadDocument?.bind(adapter);
+  if (!downloadDocument) return [];
+
+  const limiter = getHostRateLimiter(adapter.host);
+  const archived: TrackDocument[] = [];
+
+  for (const document of documents) {
+    try {
+      // Downloads count against the carrier host's request budget like lookups do
+      const { value: file } = await withRetry((signal) => downloadDocument(document.url, signal), getRetryPolicy(), {
+        beforeAttempt: () => limiter.take(),
+      });
+
+      const checksum = checksumOf(file.data);
+      const storageKey = blobKey(checksum, path.extname(document.filename) || ".pdf");
+      await getBlobStore().put(storageKey, file.data);
+
+      archived.push(await storage.saveTrackDocument({
+        mawb,
+        filename: document.filename,
+        contentType: file.contentType,
+        size: file.data.length,
+        checksum,
+        storageKey,
+        sourceUrl: document.url,
+      }));
+    } catch (error) {
+      console.error(`Error archiving document ${document.url} for ${mawb}:`, error);
+      onError?.(document, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return archived;
+}
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { db, migrateDatabase } from "./db";
+import { createSmartkargoSimulator, loadSimulatorOptions, APP_PORT, SIMULATOR_PATH } from "./carriers";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +39,18 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // bring the database schema up to date before any job touches storage
+  if (db) {
+    await migrateDatabase(db);
+    log("database migrations applied");
+  }
+
+  // a local stand-in for the carrier portal, so development never touches the live site
+  if (process.env.CARRIER_SIMULATOR === "true") {
+    app.use(SIMULATOR_PATH, createSmartkargoSimulator(loadSimulatorOptions()));
+    log(`carrier simulator mounted at ${SIMULATOR_PATH}`);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -59,7 +73,7 @@ app.use((req, res, next) => {
   // ALWAYS serve the app on port 5000
   // this serves both the API and the client.
   // It is the only port that is not firewalled.
-  const port = 5000;
+  const port = APP_PORT;
   server.listen({
     port,
     host: "0.0.0.0",
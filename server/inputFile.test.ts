@@ -0,0 +1,228 @@
+import { describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
+import { detectHeaderRow, parseAwbList, parseInputFiles, previewInputFiles, readInputFile } from "./inputFile";
+
+type SheetSpec = { name: string; rows: unknown[][]; merges?: string[] };
+
+// An in-memory workbook with the given sheets, merged ranges written like "A1:C1"
+function buildWorkbook(...sheets: SheetSpec[]): Buffer {
+  const workbook = XLSX.utils.book_new();
+  for (const { name, rows, merges } of sheets) {
+    const worksheet = XLSX.utils.aoa_to_sheet(rows);
+    if (merges) worksheet["!merges"] = merges.map((range) => XLSX.utils.decode_range(range));
+    XLSX.utils.book_append_sheet(workbook, worksheet, name);
+  }
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+describe("parseAwbList", () => {
+  it("splits pasted text on lines, commas, semicolons and tabs", () => {
+    expect(parseAwbList("807-12345675\r\n807-12345686, 807-12345690;807-12345701\t807-12345712\n"))
+      .toEqual([
+        { rowNumber: 1, mawb: "807-12345675" },
+        { rowNumber: 2, mawb: "807-12345686" },
+        { rowNumber: 3, mawb: "807-12345690" },
+        { rowNumber: 4, mawb: "807-12345701" },
+        { rowNumber: 5, mawb: "807-12345712" },
+      ]);
+  });
+
+  it("keeps spaces inside an AWB and numbers rows after dropping blanks", () => {
+    expect(parseAwbList("\n  807 12345675  \n\n,807-12345686")).toEqual([
+      { rowNumber: 1, mawb: "807 12345675" },
+      { rowNumber: 2, mawb: "807-12345686" },
+    ]);
+  });
+
+  it("takes a list as one AWB per entry", () => {
+    expect(parseAwbList([" 807-12345675 ", "", "807 12345686"])).toEqual([
+      { rowNumber: 1, mawb: "807-12345675" },
+      { rowNumber: 2, mawb: "807 12345686" },
+    ]);
+  });
+
+  it("finds nothing in blank input", () => {
+    expect(parseAwbList(" \n\t,")).toEqual([]);
+    expect(parseAwbList([])).toEqual([]);
+  });
+});
+
+describe("header row detection", () => {
+  it("skips a title block and blank rows above the header", () => {
+    const [sheet] = readInputFile(buildWorkbook({
+      name: "ALL INBOUND (JAN)-Table 1",
+      rows: [
+        ["ALL INBOUND (JAN)"],
+        ["Printed 01/02/2025"],
+        [],
+        ["No", "MAWB", "Origin", "Pieces"],
+        [1, "807-12345675", "KUL", 3],
+        [2, "807-12345686", "BKI", 1],
+      ],
+      merges: ["A1:D1"],
+    }), "inbound.xlsx");
+
+    expect(sheet.headerRow).toBe(4);
+    expect(sheet.headers).toEqual(["No", "MAWB", "Origin", "Pieces"]);
+    expect(sheet.rows.map((row) => row[1])).toEqual(["807-12345675", "807-12345686"]);
+    expect(sheet.rowNumbers).toEqual([5, 6]);
+  });
+
+  it("names every column under a merged header cell", () => {
+    const [sheet] = readInputFile(buildWorkbook({
+      name: "Sheet1",
+      rows: [
+        ["Master AWB", "Weight", "", "Destination"],
+        ["807-12345675", 10, 12, "KUL"],
+      ],
+      merges: ["B1:C1"],
+    }), "weights.xlsx");
+
+    expect(sheet.headerRow).toBe(1);
+    expect(sheet.headers).toEqual(["Master AWB", "Weight", "Weight (2)", "Destination"]);
+  });
+
+  it("reads group captions merged over their columns and the captions below as one header", () => {
+    const [sheet] = readInputFile(buildWorkbook({
+      name: "Sheet1",
+      rows: [
+        ["Inbound report"],
+        ["Shipment", "", "Weight", ""],
+        ["MAWB", "Origin", "Gross", "Chargeable"],
+        ["807-12345675", "KUL", 10, 12],
+      ],
+      merges: ["A1:D1", "A2:B2", "C2:D2"],
+    }), "grouped.xlsx");
+
+    expect(sheet.headerRow).toBe(2);
+    expect(sheet.headers).toEqual(["Shipment MAWB", "Shipment Origin", "Weight Gross", "Weight Chargeable"]);
+    expect(sheet.rows).toEqual([["807-12345675", "KUL", "10", "12"]]);
+    expect(sheet.rowNumbers).toEqual([4]);
+  });
+
+  it("leaves out blank rows and totals at the foot of a report", () => {
+    const [sheet] = readInputFile(buildWorkbook({
+      name: "Sheet1",
+      rows: [
+        ["MAWB", "Pieces"],
+        ["807-12345675", 3],
+        [],
+        ["807-12345686", 1],
+        ["Sub total", 4],
+        ["GRAND TOTAL", 4],
+        ["Totals:", 4],
+      ],
+    }), "totals.xlsx");
+
+    expect(sheet.rows).toEqual([["807-12345675", "3"], ["807-12345686", "1"]]);
+    expect(sheet.rowNumbers).toEqual([2, 4]);
+  });
+
+  it("falls back to the first filled row when no row looks like a header", () => {
+    expect(detectHeaderRow([[], ["807-12345675"], ["807-12345686"]])).toBe(1);
+    expect(detectHeaderRow([])).toBe(0);
+  });
+
+  it("reads the header from the row chosen in the preview", () => {
+    const file = {
+      name: "report.csv",
+      buffer: Buffer.from("Prepared by,Ops,Checked by,Finance\nAirline,Waybill\nMH,807-12345675\nMH,807-12345686\n"),
+    };
+    expect(previewInputFiles([file]).sheets[0].headerRow).toBe(1);
+
+    const { rows } = parseInputFiles([file], [{ file: "report.csv", sheet: "report", headerRow: 2, column: 1 }]);
+    expect(rows.map(({ mawb, source, origin }) => ({ mawb, airline: source?.Airline, origin }))).toEqual([
+      { mawb: "807-12345675", airline: "MH", origin: { file: "report.csv", sheet: "report", row: 3 } },
+      { mawb: "807-12345686", airline: "MH", origin: { file: "report.csv", sheet: "report", row: 4 } },
+    ]);
+  });
+
+  it("rejects a header row past the end of the sheet", () => {
+    const file = { name: "short.csv", buffer: Buffer.from("AWB\n807-12345675\n") };
+    expect(() => parseInputFiles([file], [{ file: "short.csv", sheet: "short", headerRow: 9 }]))
+      .toThrow('Row 9 not found in sheet "short" of "short.csv"');
+  });
+});
+
+describe("reading uploads", () => {
+  const inbound = {
+    name: "inbound.xlsx",
+    buffer: buildWorkbook(
+      { name: "Notes", rows: [["Prepared by", "Ops"], ["Checked", "yes"]] },
+      { name: "KUL", rows: [["HAWB", "Master AWB", "Pieces"], ["H1", "807-12345675", 3], ["H2", "807-12345686", 1]] },
+      { name: "BKI", rows: [["AWB No", "Pieces"], ["807-12345690", 2]] },
+    ),
+  };
+  const outbound = {
+    name: "outbound.csv",
+    buffer: Buffer.from("Flight,MAWB\nMH1,807-12345701\nMH2,807-12345675\nMH3,807-1234\n"),
+  };
+
+  it("suggests the master AWB column over a house AWB column", () => {
+    const sheets = previewInputFiles([inbound]).sheets;
+    expect(sheets.map(({ name, suggestedColumn }) => [name, suggestedColumn])).toEqual([
+      ["Notes", null],
+      ["KUL", 1],
+      ["BKI", 0],
+    ]);
+  });
+
+  it("tracks every sheet with an AWB column, numbering rows through the upload and keeping where each came from", () => {
+    const { rows, columns } = parseInputFiles([inbound, outbound]);
+
+    expect(rows.map(({ rowNumber, mawb, origin }) => ({ rowNumber, mawb, origin }))).toEqual([
+      { rowNumber: 1, mawb: "807-12345675", origin: { file: "inbound.xlsx", sheet: "KUL", row: 2 } },
+      { rowNumber: 2, mawb: "807-12345686", origin: { file: "inbound.xlsx", sheet: "KUL", row: 3 } },
+      { rowNumber: 3, mawb: "807-12345690", origin: { file: "inbound.xlsx", sheet: "BKI", row: 2 } },
+      { rowNumber: 4, mawb: "807-12345701", origin: { file: "outbound.csv", sheet: "outbound", row: 2 } },
+      { rowNumber: 5, mawb: "807-12345675", origin: { file: "outbound.csv", sheet: "outbound", row: 3 } },
+      { rowNumber: 6, mawb: "807-1234", origin: { file: "outbound.csv", sheet: "outbound", row: 4 } },
+    ]);
+    expect(columns).toEqual(["HAWB", "Master AWB", "Pieces", "AWB No", "Flight", "MAWB"]);
+  });
+
+  it("counts valid, invalid and duplicate rows per sheet and for the whole upload", () => {
+    const preview = previewInputFiles([inbound, outbound]);
+
+    expect(preview.files).toEqual(["inbound.xlsx", "outbound.csv"]);
+    expect(preview.sheets.map(({ name, selected, counts }) => [name, selected, counts])).toEqual([
+      ["Notes", false, null],
+      ["KUL", true, { total: 2, valid: 2, invalid: 0, duplicate: 0 }],
+      ["BKI", true, { total: 1, valid: 1, invalid: 0, duplicate: 0 }],
+      ["outbound", true, { total: 3, valid: 2, invalid: 1, duplicate: 0 }],
+    ]);
+    expect(preview.counts).toEqual({ total: 6, valid: 4, invalid: 1, duplicate: 1 });
+  });
+
+  it("tracks only the sheets and columns chosen in the preview", () => {
+    const { rows } = parseInputFiles([inbound, outbound], [
+      { file: "inbound.xlsx", sheet: "BKI" },
+      { file: "outbound.csv", sheet: "outbound", column: 1 },
+    ]);
+    expect(rows.map(({ rowNumber, mawb, origin }) => [rowNumber, mawb, origin?.sheet])).toEqual([
+      [1, "807-12345690", "BKI"],
+      [2, "807-12345701", "outbound"],
+      [3, "807-12345675", "outbound"],
+      [4, "807-1234", "outbound"],
+    ]);
+  });
+
+  it("tracks the first sheet when no sheet has an AWB column", () => {
+    const file = { name: "notes.xlsx", buffer: buildWorkbook({ name: "Notes", rows: [["Prepared by", "Ops"]] }) };
+    expect(previewInputFiles([file]).sheets[0]).toMatchObject({ selected: true, column: null, counts: null });
+    expect(() => parseInputFiles([file]))
+      .toThrow('AWB column not found in sheet "Notes" of "notes.xlsx"; choose the column to track');
+  });
+
+  it("rejects a sheet or column the upload does not have", () => {
+    expect(() => parseInputFiles([inbound], [{ file: "inbound.xlsx", sheet: "PEN" }]))
+      .toThrow('Sheet "PEN" not found in "inbound.xlsx"');
+    expect(() => parseInputFiles([inbound], [{ file: "inbound.xlsx", sheet: "BKI", column: 5 }]))
+      .toThrow('Column 5 not found in sheet "BKI" of "inbound.xlsx"');
+  });
+
+  it("names the file that could not be read", () => {
+    expect(() => parseInputFiles([{ name: "broken.csv", buffer: Buffer.from('"unclosed,quote\n') }]))
+      .toThrow(/^Could not read "broken.csv": /);
+  });
+});
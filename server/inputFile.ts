@@ -0,0 +1,355 @@
+import { parse } from "csv-parse/sync";
+import * as XLSX from "xlsx";
+import path from "path";
+import { InputCounts, InputPreview, SheetSelection, TrackingRow } from "@shared/schema";
+import { buildPreflightReport, normalizeMAWB } from "./awb";
+import { isZip, readZip } from "./zip";
+
+// A file as uploaded, or unpacked from an uploaded ZIP archive
+export interface InputFile {
+  name: string;
+  buffer: Buffer;
+}
+
+// A table read from an uploaded file: its header captions and data rows as cell text.
+// Headers are unique and never blank, so they can key the cells of a row
+export interface InputSheet {
+  file: string;
+  name: string;
+  // 1-based sheet row the headers were read from
+  headerRow: number;
+  headers: string[];
+  rows: string[][];
+  // 1-based sheet row of each data row
+  rowNumbers: number[];
+  // Every row of the sheet, so the headers can be read from another row
+  cells: string[][];
+}
+
+// File types an upload (or a ZIP archive) may hold
+export const INPUT_EXTENSIONS = [".csv", ".xlsx", ".xls"];
+
+// Rows returned by a preview, and values sampled when guessing the AWB column
+const SAMPLE_ROWS = 10;
+const SCORED_ROWS = 50;
+
+// Title blocks above the header are rarely longer than this
+const HEADER_SCAN_ROWS = 20;
+
+// Header captions of a master AWB column with the weight they add to a column's score.
+// House AWB columns are never suggested: house bills are not tracked with the carrier
+const AWB_HEADERS: [RegExp, number][] = [
+  [/\bmawb\b|master/i, 0.5],
+  [/\bawb\b|air ?waybill/i, 0.3],
+];
+const HOUSE_HEADER = /hawb|house/i;
+
+// Summary rows at the foot of a report
+const TOTALS_ROW = /^(grand\s*|sub\s*)?totals?\b/i;
+
+// Replace uploaded ZIP archives by the CSV and Excel files inside them, named "archive.zip/inner.csv".
+// Other files in an archive are skipped; an archive holding none of these is an error
+export function expandUploads(files: InputFile[]): InputFile[] {
+  return files.flatMap((file) => {
+    if (!isZip(file.buffer) || !file.name.toLowerCase().endsWith(".zip")) return [file];
+
+    const inner = readZip(file.buffer)
+      .filter((entry) => INPUT_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()))
+      .map((entry) => ({ name: `${file.name}/${entry.name}`, buffer: entry.data }));
+    if (inner.length === 0) {
+      throw new Error(`"${file.name}" contains no CSV or Excel files`);
+    }
+    return inner;
+  });
+}
+
+// Read every sheet of an uploaded CSV or Excel file, with the header row of each detected
+export function readInputFile(buffer: Buffer, filename: string): InputSheet[] {
+  if (filename.toLowerCase().endsWith(".csv")) {
+    const records: string[][] = parse(buffer.toString("utf-8"), {
+      bom: true,
+      relax_column_count: true,
+      trim: true,
+    });
+    return [toInputSheet(filename, path.basename(filename, path.extname(filename)), records)];
+  }
+
+  // Numbers keep their digits (an AWB in a General cell must not become 8.07E+10); dates keep their format
+  const workbook = XLSX.read(buffer, { cellDates: true });
+  return workbook.SheetNames.map((name) => toInputSheet(filename, name, readWorksheet(workbook.Sheets[name])));
+}
+
+// Read every sheet of several files, naming the file that could not be read
+function readInputFiles(files: InputFile[]): InputSheet[] {
+  return files.flatMap((file) => {
+    try {
+      return readInputFile(file.buffer, file.name);
+    } catch (error) {
+      throw new Error(`Could not read "${file.name}": ${(error as Error).message}`);
+    }
+  });
+}
+
+// Cell text of a worksheet indexed from A1, with every cell of a merged range holding its value
+function readWorksheet(worksheet: XLSX.WorkSheet): string[][] {
+  if (!worksheet["!ref"]) return [];
+  const start = XLSX.utils.decode_range(worksheet["!ref"]).s;
+
+  const records = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+    header: 1,
+    raw: false,
+    rawNumbers: true,
+    defval: "",
+    blankrows: true,
+  });
+  const cells: string[][] = Array.from({ length: start.r }, () => []);
+  for (const record of records) {
+    cells.push([...Array<string>(start.c).fill(""), ...record.map((cell) => String(cell ?? "").trim())]);
+  }
+
+  // A merged header such as "Weight" over two columns names both of them
+  for (const merge of worksheet["!merges"] ?? []) {
+    const value = cells[merge.s.r]?.[merge.s.c] ?? "";
+    for (let r = merge.s.r; r <= merge.e.r && r < cells.length; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        if (!cells[r][c]) cells[r][c] = value;
+      }
+    }
+  }
+
+  return cells;
+}
+
+// How much a row looks like a header: several distinct text captions, one of them naming an AWB
+// column. Rows holding numbers, dates or AWBs are data
+function headerScore(row: string[]): number {
+  const captions = row.filter((cell) => cell !== "");
+  if (captions.length < 2) return 0;
+  if (captions.some((cell) => /^[\d\s.,:\/-]+$/.test(cell) || normalizeMAWB(cell).valid)) return 0;
+
+  const awbBonus = captions.some((cell) => AWB_HEADERS.some(([pattern]) => pattern.test(cell))) ? 2 : 0;
+  return new Set(captions).size + awbBonus;
+}
+
+// A row of group captions, each merged across the columns of the captions below it. A title merged
+// across the whole sheet has a single caption and is not one
+function hasGroupCaptions(row: string[]): boolean {
+  const captions = row.filter((cell) => cell !== "");
+  return new Set(captions).size >= 2 &&
+    row.some((cell, idx) => cell !== "" && (cell === row[idx - 1] || cell === row[idx + 1]));
+}
+
+// 0-based index of the most header-like row near the top of a sheet, or of its first non-blank row.
+// When that row sits under a row of group captions, the header starts at the group captions
+export function detectHeaderRow(cells: string[][]): number {
+  let best = { index: -1, score: 0 };
+  cells.slice(0, HEADER_SCAN_ROWS).forEach((row, index) => {
+    const score = headerScore(row);
+    if (score > best.score) best = { index, score };
+  });
+
+  if (best.index > 0 && headerScore(cells[best.index - 1]) > 0 && hasGroupCaptions(cells[best.index - 1])) {
+    return best.index - 1;
+  }
+  if (best.index >= 0) return best.index;
+  const firstFilled = cells.findIndex((row) => row.some((cell) => cell !== ""));
+  return Math.max(firstFilled, 0);
+}
+
+// Build a sheet using the given 0-based header row, or the detected one. A header split over two
+// rows (group captions merged across the columns above their own captions) is read as one
+function toInputSheet(file: string, name: string, cells: string[][], headerIndex = detectHeaderRow(cells)): InputSheet {
+  const top = cells[headerIndex] ?? [];
+  const below = cells[headerIndex + 1] ?? [];
+  const twoRowHeader = hasGroupCaptions(top) && headerScore(below) > 0;
+
+  const captionRows = twoRowHeader ? [top, below] : [top];
+  const width = cells.reduce((max, row) => Math.max(max, row.length), 0);
+
+  // Name blank headers after their position and number repeated ones
+  const seen = new Map<string, number>();
+  const headers = Array.from({ length: width }, (_, idx) => {
+    const parts = captionRows.map((row) => row[idx] || "").filter((part, partIdx, all) => part !== "" && all.indexOf(part) === partIdx);
+    const caption = parts.join(" ") || `Column ${idx + 1}`;
+    const count = (seen.get(caption) ?? 0) + 1;
+    seen.set(caption, count);
+    return count > 1 ? `${caption} (${count})` : caption;
+  });
+
+  // Data rows follow the header; blank rows and report totals are not data
+  const dataRowIndexes = cells
+    .map((_, idx) => idx)
+    .slice(headerIndex + captionRows.length)
+    .filter((idx) => cells[idx].some((cell) => cell !== ""))
+    .filter((idx) => !TOTALS_ROW.test(cells[idx].find((cell) => cell !== "") ?? ""));
+
+  return {
+    file,
+    name,
+    headerRow: headerIndex + 1,
+    headers,
+    rows: dataRowIndexes.map((idx) => cells[idx]),
+    rowNumbers: dataRowIndexes.map((idx) => idx + 1),
+    cells,
+  };
+}
+
+// Guess the column holding the AWBs from how many of its values are valid AWBs and from its caption
+export function suggestAwbColumn(sheet: InputSheet): number | null {
+  let best: { column: number; score: number } | null = null;
+
+  for (let column = 0; column < sheet.headers.length; column++) {
+    const header = sheet.headers[column] || "";
+    if (HOUSE_HEADER.test(header)) continue;
+
+    const values = sheet.rows
+      .map((row) => row[column] || "")
+      .filter((value) => value !== "")
+      .slice(0, SCORED_ROWS);
+    const validShare = values.length > 0
+      ? values.filter((value) => normalizeMAWB(value).valid).length / values.length
+      : 0;
+    const headerWeight = AWB_HEADERS.find(([pattern]) => pattern.test(header))?.[1] ?? 0;
+
+    const score = validShare + headerWeight;
+    if (score >= 0.5 && (!best || score > best.score)) {
+      best = { column, score };
+    }
+  }
+
+  return best?.column ?? null;
+}
+
+// A sheet as it would be tracked: with the header row and column it is read with, if selected
+interface SheetPlan {
+  sheet: InputSheet;
+  selected: boolean;
+  column: number | null;
+}
+
+// Apply a selection to the sheets of an upload, filling in the detected header row and suggested
+// column of each selected sheet. Without a selection every sheet with a suggested AWB column is
+// tracked, or the first sheet if none has one
+function planSheets(sheets: InputSheet[], selection?: SheetSelection[]): SheetPlan[] {
+  if (sheets.length === 0) {
+    throw new Error("Upload contains no sheets");
+  }
+
+  if (!selection) {
+    const plans = sheets.map((sheet) => {
+      const column = suggestAwbColumn(sheet);
+      return { sheet, selected: column !== null, column };
+    });
+    if (!plans.some((plan) => plan.selected)) plans[0].selected = true;
+    return plans;
+  }
+
+  for (const choice of selection) {
+    if (!sheets.some((sheet) => sheet.file === choice.file && sheet.name === choice.sheet)) {
+      throw new Error(`Sheet "${choice.sheet}" not found in "${choice.file}"`);
+    }
+  }
+
+  return sheets.map((candidate) => {
+    const choice = selection.find((entry) => entry.file === candidate.file && entry.sheet === candidate.name);
+    if (!choice) return { sheet: candidate, selected: false, column: suggestAwbColumn(candidate) };
+
+    if (choice.headerRow !== undefined && choice.headerRow > candidate.cells.length) {
+      throw new Error(`Row ${choice.headerRow} not found in sheet "${candidate.name}" of "${candidate.file}"`);
+    }
+    const sheet = choice.headerRow !== undefined && choice.headerRow !== candidate.headerRow
+      ? toInputSheet(candidate.file, candidate.name, candidate.cells, choice.headerRow - 1)
+      : candidate;
+    if (choice.column !== undefined && choice.column >= sheet.headers.length) {
+      throw new Error(`Column ${choice.column} not found in sheet "${sheet.name}" of "${sheet.file}"`);
+    }
+
+    return { sheet, selected: true, column: choice.column ?? suggestAwbColumn(sheet) };
+  });
+}
+
+// Take the AWB column of a sheet, keeping every cell of the row and where it was read from.
+// Rows are numbered on from `firstRowNumber` so rows of several sheets number through one job
+function toTrackingRows(sheet: InputSheet, column: number, firstRowNumber = 1): TrackingRow[] {
+  return sheet.rows.map((row, idx) => ({
+    rowNumber: firstRowNumber + idx,
+    mawb: row[column] || "",
+    source: Object.fromEntries(sheet.headers.map((header, headerIdx) => [header, row[headerIdx] || ""])),
+    origin: { file: sheet.file, sheet: sheet.name, row: sheet.rowNumbers[idx] },
+  }));
+}
+
+// Rows of the selected sheets, in upload order
+function selectedRows(plans: SheetPlan[]): TrackingRow[] {
+  const rows: TrackingRow[] = [];
+  for (const { sheet, selected, column } of plans) {
+    if (!selected || column === null) continue;
+    rows.push(...toTrackingRows(sheet, column, rows.length + 1));
+  }
+  return rows;
+}
+
+function countRows(rows: TrackingRow[]): InputCounts {
+  const report = buildPreflightReport(rows);
+  return {
+    total: report.total,
+    valid: report.valid,
+    invalid: report.rejected.length,
+    duplicate: report.duplicates.length,
+  };
+}
+
+export interface ParsedInput {
+  rows: TrackingRow[];
+  // Headers of the sheets the rows were read from, in order of first appearance
+  columns: string[];
+}
+
+// Read the rows to track from uploaded files using the given (or suggested) sheets and columns
+export function parseInputFiles(files: InputFile[], selection?: SheetSelection[]): ParsedInput {
+  const plans = planSheets(readInputFiles(expandUploads(files)), selection).filter((plan) => plan.selected);
+
+  const unmapped = plans.find((plan) => plan.column === null);
+  if (unmapped) {
+    throw new Error(`AWB column not found in sheet "${unmapped.sheet.name}" of "${unmapped.sheet.file}"; choose the column to track`);
+  }
+
+  const columns = Array.from(new Set(plans.flatMap((plan) => plan.sheet.headers)));
+  return { rows: selectedRows(plans), columns };
+}
+
+// Read the rows to track from a pasted list: a JSON array, or text with one AWB per line or
+// separated by commas, semicolons or tabs. Spaces are kept, as an AWB may be written "807 12345675"
+export function parseAwbList(input: string | string[]): TrackingRow[] {
+  const entries = typeof input === "string" ? input.split(/[\r\n,;\t]+/) : input;
+  return entries
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== "")
+    .map((mawb, idx) => ({ rowNumber: idx + 1, mawb }));
+}
+
+// Describe uploaded files and how they would be read: every sheet with the header row and column it
+// would be tracked with, and the valid, invalid and duplicate row counts of each selected sheet and
+// of the whole upload
+export function previewInputFiles(files: InputFile[], selection?: SheetSelection[]): InputPreview {
+  const expanded = expandUploads(files);
+  const plans = planSheets(readInputFiles(expanded), selection);
+  const rows = selectedRows(plans);
+
+  return {
+    files: expanded.map((file) => file.name),
+    sheets: plans.map(({ sheet, selected, column }) => ({
+      file: sheet.file,
+      name: sheet.name,
+      headerRow: sheet.headerRow,
+      headers: sheet.headers,
+      rowCount: sheet.rows.length,
+      sampleRows: sheet.rows.slice(0, SAMPLE_ROWS),
+      suggestedColumn: suggestAwbColumn(sheet),
+      selected,
+      column,
+      counts: selected && column !== null ? countRows(toTrackingRows(sheet, column)) : null,
+    })),
+    counts: rows.length > 0 ? countRows(rows) : null,
+  };
+}
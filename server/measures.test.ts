@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { parsePieces, parseWeight } from "./measures";
+
+describe("parsePieces", () => {
+  it.each([
+    ["12", 12],
+    ["12 PCS", 12],
+    [" 3pcs", 3],
+    ["1,200", 1200],
+    ["0", 0],
+  ])("reads %j as %d", (text, pieces) => {
+    expect(parsePieces(text)).toBe(pieces);
+  });
+
+  it.each([null, undefined, "", "PCS 12", "-"])("has no count in %j", (text) => {
+    expect(parsePieces(text)).toBeNull();
+  });
+});
+
+describe("parseWeight", () => {
+  it.each([
+    ["10.5 KG", { weight: 10.5, weightUnit: "kg", weightKg: 10.5 }],
+    ["1,234.5kgs", { weight: 1234.5, weightUnit: "kg", weightKg: 1234.5 }],
+    ["45", { weight: 45, weightUnit: "kg", weightKg: 45 }],
+    ["23 LB", { weight: 23, weightUnit: "lb", weightKg: 10.433 }],
+    ["100 lbs", { weight: 100, weightUnit: "lb", weightKg: 45.359 }],
+    ["2 pounds", { weight: 2, weightUnit: "lb", weightKg: 0.907 }],
+    ["1 L", { weight: 1, weightUnit: "lb", weightKg: 0.454 }],
+  ])("reads %j", (text, weight) => {
+    expect(parseWeight(text)).toEqual(weight);
+  });
+
+  it.each([null, undefined, "", "KG 10", "n/a"])("has no weight in %j", (text) => {
+    expect(parseWeight(text)).toBeNull();
+  });
+});
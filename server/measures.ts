@@ -0,0 +1,22 @@
+import { type WeightUnit } from "@shared/schema";
+
+export const KG_PER_LB = 0.45359237;
+
+export type ParsedWeight = { weight: number; weightUnit: WeightUnit; weightKg: number };
+
+// Piece count from text such as "12", "12 PCS" or "1,200"
+export function parsePieces(text: string | null | undefined): number | null {
+  const match = (text ?? "").match(/^\s*(\d[\d,]*)/);
+  return match ? parseInt(match[1].replace(/,/g, ""), 10) : null;
+}
+
+// Weight from text such as "10.5 KG", "1,234.5kgs" or "23 LB"; kilograms unless a pound unit is given
+export function parseWeight(text: string | null | undefined): ParsedWeight | null {
+  const match = (text ?? "").match(/^\s*(\d[\d,]*(?:\.\d+)?)\s*([a-z]*)/i);
+  if (!match) return null;
+
+  const weight = parseFloat(match[1].replace(/,/g, ""));
+  const weightUnit: WeightUnit = /^(l|lb|lbs|pound|pounds)$/i.test(match[2]) ? "lb" : "kg";
+  const weightKg = weightUnit === "lb" ? Math.round(weight * KG_PER_LB * 1000) / 1000 : weight;
+  return { weight, weightUnit, weightKg };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { JobQueue } from "./queue";
+
+// A job that runs until its `finish` is called
+function controllableJob() {
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => {
+    finish = resolve;
+  });
+  return { run: () => done, finish };
+}
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("JobQueue", () => {
+  it("starts urgent jobs ahead of normal ones", async () => {
+    const queue = new JobQueue(1);
+    const first = controllableJob();
+    queue.enqueue(1, "normal", first.run);
+    queue.enqueue(2, "normal", controllableJob().run);
+    queue.enqueue(3, "urgent", controllableJob().run);
+
+    expect(queue.position(3)).toBe(1);
+    expect(queue.position(2)).toBe(2);
+  });
+
+  it("lets a waiting job start while a running job is parked", async () => {
+    const queue = new JobQueue(1);
+    queue.enqueue(1, "normal", controllableJob().run);
+    queue.enqueue(2, "normal", controllableJob().run);
+
+    queue.park(1);
+
+    expect(queue.isRunning(2)).toBe(true);
+    expect(queue.position(2)).toBeUndefined();
+  });
+
+  it("makes an unparked job wait for a free slot, ahead of jobs that have not started", async () => {
+    const queue = new JobQueue(1);
+    const parkedJob = controllableJob();
+    const other = controllableJob();
+    queue.enqueue(1, "normal", parkedJob.run);
+    queue.park(1);
+    queue.enqueue(2, "normal", other.run);
+    queue.enqueue(3, "normal", controllableJob().run);
+
+    let resumed = false;
+    queue.unpark(1).then(() => {
+      resumed = true;
+    });
+    await settle();
+    expect(resumed).toBe(false);
+    expect(queue.position(1)).toBe(1);
+
+    other.finish();
+    await settle();
+    expect(resumed).toBe(true);
+    expect(queue.isRunning(1)).toBe(true);
+    expect(queue.position(3)).toBe(1);
+  });
+
+  it("wakes a cancelled job waiting for its slot without giving it one", async () => {
+    const queue = new JobQueue(1);
+    queue.enqueue(1, "normal", controllableJob().run);
+    queue.park(1);
+    queue.enqueue(2, "normal", controllableJob().run);
+
+    const slot = queue.unpark(1);
+    expect(queue.remove(1)).toBe(false);
+    queue.wake(1);
+
+    await expect(slot).resolves.toBeUndefined();
+    expect(queue.isRunning(1)).toBe(false);
+    expect(queue.position(1)).toBeUndefined();
+  });
+});
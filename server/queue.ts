@@ -0,0 +1,114 @@
+import { JobPriority } from "@shared/schema";
+
+interface QueuedJob {
+  jobId: number;
+  priority: JobPriority;
+  // Enqueue order, for FIFO within a priority
+  seq: number;
+  run: () => Promise<unknown>;
+  // Set on a parked job waiting to get its slot back; called instead of `run` when it does
+  resume?: () => void;
+}
+
+// Runs at most `concurrency` jobs at once; waiting jobs start urgent-first, then in arrival order.
+// A running job can park, giving up its slot until it asks for one again
+export class JobQueue {
+  private waiting: QueuedJob[] = [];
+  // Priority of each running and parked job
+  private running = new Map<number, JobPriority>();
+  private parked = new Map<number, JobPriority>();
+  private seq = 0;
+
+  constructor(private concurrency: number) {}
+
+  enqueue(jobId: number, priority: JobPriority, run: () => Promise<unknown>): void {
+    this.insert({ jobId, priority, seq: this.seq++, run });
+    this.pump();
+  }
+
+  // Give up a running job's slot while it is paused, letting a waiting job start
+  park(jobId: number): void {
+    const priority = this.running.get(jobId);
+    if (!priority) return;
+
+    this.running.delete(jobId);
+    this.parked.set(jobId, priority);
+    this.pump();
+  }
+
+  // Wait for a slot to continue a parked job. It goes ahead of every job of its priority that has not started
+  unpark(jobId: number): Promise<void> {
+    const priority = this.parked.get(jobId);
+    if (!priority) return Promise.resolve();
+
+    this.parked.delete(jobId);
+    return new Promise<void>((resolve) => {
+      this.insert({ jobId, priority, seq: this.seq++, run: async () => {}, resume: resolve });
+      this.pump();
+    });
+  }
+
+  // Let a parked job that is waiting for a slot continue without one, so a cancelled job can wind down
+  wake(jobId: number): void {
+    this.parked.delete(jobId);
+    const idx = this.waiting.findIndex((queued) => queued.jobId === jobId && queued.resume);
+    if (idx === -1) return;
+
+    const [entry] = this.waiting.splice(idx, 1);
+    entry.resume?.();
+  }
+
+  // 1-based position among waiting jobs, undefined if the job is not waiting
+  position(jobId: number): number | undefined {
+    const idx = this.waiting.findIndex((queued) => queued.jobId === jobId);
+    return idx === -1 ? undefined : idx + 1;
+  }
+
+  // Drop a job that has not started yet
+  remove(jobId: number): boolean {
+    const idx = this.waiting.findIndex((queued) => queued.jobId === jobId && !queued.resume);
+    if (idx === -1) return false;
+
+    this.waiting.splice(idx, 1);
+    return true;
+  }
+
+  isRunning(jobId: number): boolean {
+    return this.running.has(jobId);
+  }
+
+  // Keep the waiting list ordered: urgent jobs go ahead of every normal job, and within a priority
+  // parked jobs go ahead of jobs that have not started
+  private insert(entry: QueuedJob): void {
+    const rank = (queued: QueuedJob) => (queued.priority === "urgent" ? 0 : 2) + (queued.resume ? 0 : 1);
+    const idx = this.waiting.findIndex((queued) => rank(queued) > rank(entry));
+    if (idx === -1) {
+      this.waiting.push(entry);
+    } else {
+      this.waiting.splice(idx, 0, entry);
+    }
+  }
+
+  private pump(): void {
+    while (this.running.size < this.concurrency && this.waiting.length > 0) {
+      const next = this.waiting.shift()!;
+      this.running.set(next.jobId, next.priority);
+
+      // A parked job continues the run that is already under way
+      if (next.resume) {
+        next.resume();
+        continue;
+      }
+
+      next.run()
+        .catch((error) => {
+          console.error(`Error running queued job ${next.jobId}:`, error);
+        })
+        .finally(() => {
+          this.running.delete(next.jobId);
+          this.parked.delete(next.jobId);
+          this.pump();
+        });
+    }
+  }
+}
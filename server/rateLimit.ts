@@ -0,0 +1,59 @@
+// Token bucket: allows bursts of up to `capacity` requests, refilled at `refillPerSecond`.
+// Waiters are served in arrival order and sleep on a timer rather than polling
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private waiters: (() => void)[] = [];
+  private timer?: NodeJS.Timeout;
+
+  constructor(private capacity: number, private refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  // Resolves once a token has been taken
+  take(): Promise<void> {
+    return new Promise((resolve) => {
+      this.waiters.push(resolve);
+      this.drain();
+    });
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond,
+    );
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    this.refill();
+    while (this.waiters.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.waiters.shift()!();
+    }
+
+    if (this.waiters.length > 0 && !this.timer) {
+      const waitMs = Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, waitMs);
+    }
+  }
+}
+
+const hostLimiters = new Map<string, TokenBucket>();
+
+// Shared limiter for every request to a carrier host, sized from CARRIER_RATE_PER_SEC and CARRIER_RATE_BURST
+export function getHostRateLimiter(host: string): TokenBucket {
+  let limiter = hostLimiters.get(host);
+  if (!limiter) {
+    const perSecond = parseFloat(process.env.CARRIER_RATE_PER_SEC || "") || 2;
+    const burst = parseInt(process.env.CARRIER_RATE_BURST || "") || 4;
+    limiter = new TokenBucket(burst, perSecond);
+    hostLimiters.set(host, limiter);
+  }
+  return limiter;
+}
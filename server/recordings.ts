@@ -0,0 +1,14 @@
+import fs from "fs/promises";
+import path from "path";
+
+// Save a carrier page the parser could not read, so it can be added to the parser's fixtures.
+// Recording is off unless PARSER_RECORDINGS_DIR is set
+export async function recordCarrierPage(carrierId: string, mawb: string, html: string): Promise<string | undefined> {
+  const dir = process.env.PARSER_RECORDINGS_DIR;
+  if (!dir) return undefined;
+
+  const file = path.join(dir, carrierId, `${mawb}-${Date.now()}.html`);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, html, "utf-8");
+  return file;
+}
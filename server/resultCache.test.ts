@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { ResultCache } from "./resultCache";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("ResultCache", () => {
+  it("shares one load between concurrent requests for a key", async () => {
+    const cache = new ResultCache<string>(() => HOUR);
+    let loads = 0;
+    let finish!: (value: string) => void;
+    const load = () => {
+      loads++;
+      return new Promise<string>((resolve) => {
+        finish = resolve;
+      });
+    };
+
+    const first = cache.get("807-12345675", load);
+    const second = cache.get("807-12345675", load);
+    finish("result");
+
+    expect(await first).toEqual({ value: "result", cached: false });
+    expect(await second).toEqual({ value: "result", cached: true });
+    expect(loads).toBe(1);
+  });
+
+  it("evicts the least recently used key once full", async () => {
+    const cache = new ResultCache<string>(() => HOUR, 2);
+    await cache.get("a", async () => "a1");
+    await cache.get("b", async () => "b1");
+
+    // Reading a makes b the least recently used
+    await cache.get("a", async () => "a2");
+    await cache.get("c", async () => "c1");
+
+    expect(await cache.get("a", async () => "a3")).toEqual({ value: "a1", cached: true });
+    expect(await cache.get("c", async () => "c2")).toEqual({ value: "c1", cached: true });
+    expect(await cache.get("b", async () => "b2")).toEqual({ value: "b2", cached: false });
+  });
+
+  it("does not cache values with no time to live", async () => {
+    const cache = new ResultCache<string>((value) => (value === "fresh" ? HOUR : 0));
+    await cache.get("a", async () => "stale");
+
+    expect(await cache.get("a", async () => "fresh")).toEqual({ value: "fresh", cached: false });
+  });
+});
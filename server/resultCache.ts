@@ -0,0 +1,89 @@
+import { MilestoneCode } from "@shared/schema";
+
+// Minutes a result stays fresh by milestone: delivered shipments no longer change, ones still
+// moving do often. RESULT_CACHE_TTL_MINUTES overrides these, e.g. "DLV=4320,EXC=5,default=15"
+const DEFAULT_TTL_MINUTES: Record<MilestoneCode | "default", number> = {
+  BKD: 15,
+  RCS: 15,
+  MAN: 15,
+  DEP: 15,
+  ARR: 15,
+  RCF: 15,
+  NFD: 60,
+  AWD: 24 * 60,
+  DLV: 3 * 24 * 60,
+  EXC: 15,
+  default: 15,
+};
+
+// AWBs kept by default; past this the least recently used is evicted
+const DEFAULT_MAX_ENTRIES = 10000;
+
+let ttlMinutes: Record<string, number> | undefined;
+
+// How long a result with the given milestone may be served from cache, in ms; 0 disables caching
+export function cacheTtlMs(milestone: MilestoneCode | null | undefined): number {
+  if (!ttlMinutes) {
+    ttlMinutes = { ...DEFAULT_TTL_MINUTES };
+    for (const setting of (process.env.RESULT_CACHE_TTL_MINUTES || "").split(",")) {
+      const [code, minutes] = setting.split("=").map((part) => part.trim());
+      if (code && minutes && !isNaN(parseFloat(minutes))) {
+        ttlMinutes[code] = parseFloat(minutes);
+      }
+    }
+  }
+  return (ttlMinutes[milestone ?? "default"] ?? ttlMinutes.default) * 60 * 1000;
+}
+
+// Caches lookups by key for a TTL that depends on the value, holding at most `maxEntries` keys.
+// Concurrent lookups of a key that is not cached share a single load; failed loads are not cached
+export class ResultCache<T> {
+  // In order of last use, least recent first
+  private entries = new Map<string, { value: T; expiresAt: number }>();
+  private inFlight = new Map<string, Promise<T>>();
+
+  constructor(private ttlOf: (value: T) => number, private maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  // Serve the key from cache or an in-flight load, or load it. `cached` is false only for the
+  // caller whose load produced the value
+  async get(key: string, load: () => Promise<T>): Promise<{ value: T; cached: boolean }> {
+    // Move the key to the most recently used end, or drop it once expired
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      if (entry.expiresAt > Date.now()) {
+        this.entries.set(key, entry);
+        return { value: entry.value, cached: true };
+      }
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return { value: await pending, cached: true };
+    }
+
+    const loading = load();
+    this.inFlight.set(key, loading);
+    try {
+      const value = await loading;
+      this.set(key, value);
+      return { value, cached: false };
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  private set(key: string, value: T): void {
+    this.entries.delete(key);
+    const ttl = this.ttlOf(value);
+    if (ttl <= 0) return;
+
+    // Expired entries are left to age out with the least recently used ones
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl });
+  }
+}
@@ -0,0 +1,88 @@
+import { CarrierError, CarrierSessionError } from "./carriers";
+
+export interface RetryPolicy {
+  // Retries after the first attempt; only transient failures are retried
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Per-attempt timeout after which the attempt is aborted
+  timeoutMs: number;
+}
+
+// Network failures that are expected to clear up on their own
+const TRANSIENT_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EPIPE", "EAI_AGAIN", "ENOTFOUND", "EHOSTUNREACH"]);
+
+// Retry policy for carrier lookups, configured from CARRIER_MAX_RETRIES and CARRIER_TIMEOUT_MS
+export function getRetryPolicy(): RetryPolicy {
+  const maxRetries = parseInt(process.env.CARRIER_MAX_RETRIES || "");
+  return {
+    maxRetries: Number.isNaN(maxRetries) ? 3 : maxRetries,
+    baseDelayMs: 500,
+    maxDelayMs: 10000,
+    timeoutMs: parseInt(process.env.CARRIER_TIMEOUT_MS || "") || 15000,
+  };
+}
+
+// Map any failure to a CarrierError; errors that are neither network failures nor already
+// classified are treated as permanent so that bugs are not retried
+export function classifyError(error: unknown): CarrierError {
+  if (error instanceof CarrierError) return error;
+
+  const code = (error as { code?: string } | undefined)?.code;
+  const message = error instanceof Error ? error.message : String(error);
+  if (code && TRANSIENT_CODES.has(code)) {
+    return new CarrierError("transient", message);
+  }
+  return new CarrierError("permanent", message);
+}
+
+// Exponential backoff with full jitter: a random delay up to base * 2^retry, capped
+export function backoffDelay(policy: RetryPolicy, retry: number): number {
+  return Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+}
+
+export interface RetryHooks {
+  // Awaited before every attempt, outside its timeout (e.g. to wait for a rate limit token)
+  beforeAttempt?: () => Promise<void>;
+  onRetry?: (error: CarrierError, retry: number, delayMs: number) => void;
+  // Called for every failed attempt, including the last one
+  onFailure?: (error: CarrierError) => void;
+}
+
+// Run `attempt` until it succeeds, fails with a non-transient error or runs out of retries.
+// Each attempt gets its own abort signal that fires after the policy's timeout
+export async function withRetry<T>(
+  attempt: (signal: AbortSignal) => Promise<T>,
+  policy: RetryPolicy,
+  hooks: RetryHooks = {},
+): Promise<{ value: T; retries: number }> {
+  for (let retries = 0; ; retries++) {
+    await hooks.beforeAttempt?.();
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), policy.timeoutMs);
+
+    let carrierError: CarrierError;
+    try {
+      return { value: await attempt(controller.signal), retries };
+    } catch (error) {
+      // The abort also ends a wait for a free carrier session, which is not a carrier timeout
+      carrierError = controller.signal.aborted && !(error instanceof CarrierSessionError)
+        ? new CarrierError("transient", `Carrier request timed out after ${policy.timeoutMs}ms`)
+        : classifyError(error);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    hooks.onFailure?.(carrierError);
+
+    if (carrierError.errorClass !== "transient" || retries >= policy.maxRetries) {
+      carrierError.retries = retries;
+      throw carrierError;
+    }
+
+    const delayMs = backoffDelay(policy, retries);
+    hooks.onRetry?.(carrierError, retries + 1, delayMs);
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+  }
+}
@@ -0,0 +1,88 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+// The routes on an in-memory store. AWBs use the 999 prefix, which no carrier serves, so queued
+// jobs finish without a lookup
+describe("POST /api/track/batch", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    server.listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server?.close();
+  });
+
+  const post = async (body: string, contentType: string) => {
+    const response = await fetch(`${baseUrl}/api/track/batch`, {
+      method: "POST",
+      headers: { "Content-Type": contentType },
+      body,
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  const savedInput = async (jobId: number) => (await storage.getTrackJobInput(jobId))?.map((row) => row.mawb);
+
+  it("queues a job for a plain-text list", async () => {
+    const { status, body } = await post("999-12345675\n999 12345686\n", "text/plain");
+
+    expect(status).toBe(200);
+    expect(body.preflight).toMatchObject({ total: 2, valid: 2 });
+    expect(await savedInput(body.jobId)).toEqual(["999-12345675", "999 12345686"]);
+    expect(await storage.getTrackJob(body.jobId)).toMatchObject({ filename: "Pasted list (2 AWBs)", totalCount: 2 });
+  });
+
+  it("queues a job for a JSON array", async () => {
+    const { status, body } = await post(JSON.stringify(["999-12345690", "999-12345701"]), "application/json");
+
+    expect(status).toBe(200);
+    expect(await savedInput(body.jobId)).toEqual(["999-12345690", "999-12345701"]);
+  });
+
+  it("takes the list and job settings from an object", async () => {
+    const { status, body } = await post(JSON.stringify({
+      mawbs: "999-12345712,999-12345723",
+      concurrency: 2,
+      priority: "urgent",
+    }), "application/json");
+
+    expect(status).toBe(200);
+    expect(await savedInput(body.jobId)).toEqual(["999-12345712", "999-12345723"]);
+    expect(await storage.getTrackJob(body.jobId)).toMatchObject({ concurrency: 2, priority: "urgent" });
+  });
+
+  it("rejects an empty list", async () => {
+    expect(await post(" \n ", "text/plain")).toEqual({ status: 400, body: { message: "No AWBs given" } });
+    expect(await post("[]", "application/json")).toEqual({ status: 400, body: { message: "No AWBs given" } });
+  });
+
+  it("rejects more AWBs than a pasted list may hold", async () => {
+    const mawbs = Array.from({ length: 1001 }, () => "999-12345675").join("\n");
+
+    const { status, body } = await post(mawbs, "text/plain");
+
+    expect(status).toBe(400);
+    expect(body.message).toMatch(/^At most 1000 AWBs/);
+  });
+
+  it("summarises an invalid body in a short message", async () => {
+    expect(await post("{}", "application/json")).toEqual({
+      status: 400,
+      body: { message: 'Invalid request: Required at "mawbs"' },
+    });
+    expect((await post(JSON.stringify({ mawbs: ["999-12345675"], delay: 5 }), "application/json")).body)
+      .toEqual({ message: 'Invalid request: Number must be greater than or equal to 50 at "delay"' });
+  });
+});
@@ -1,12 +1,40 @@
-import type { Express } from "express";
+import express, { type Express, type Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, InvalidCursorError } from "./storage";
 import multer from "multer";
 import { WebSocketServer } from "ws";
-import { z } from "zod";
+import { z, ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
 import path from "path";
-import { processCSVFile, processExcelFile, trackAWB, splitMAWB, generateExcelFile, updateGoogleSheet, cancelTrackingJob } from "./tracking";
-import { InsertTrackJob } from "@shared/schema";
+import { trackAWB, splitMAWB, generateExcelFile, updateGoogleSheet, cancelTrackingJob, pauseTrackingJob, resumeTrackingJob, saveJobInput, enqueueTrackingJob, dequeueTrackingJob, getQueuePosition, recoverInterruptedJobs, getJobFamilyIds, getConsolidatedResults, getIssueOrigins } from "./tracking";
+import { buildPreflightReport, normalizeMAWB } from "./awb";
+import { InputFile, INPUT_EXTENSIONS, parseAwbList, parseInputFiles, previewInputFiles } from "./inputFile";
+import { checksumOf, getBlobStore } from "./blobStore";
+import { documentUrl } from "./documents";
+import { getCarrierAdapter, CarrierError } from "./carriers";
+import { InsertTrackJob, TrackJobStatus, trackResultQuerySchema, rowOutcome, jobPriority, inputSelection, maxJobConcurrency } from "@shared/schema";
+
+// Pasted lists are for a handful of AWBs; larger batches come as files
+const MAX_BATCH_SIZE = 1000;
+
+// Files of a multipart upload, sent as `file` or as several `files`
+function uploadedFiles(req: Request): InputFile[] {
+  const fields = (req.files ?? {}) as Record<string, Express.Multer.File[]>;
+  return [...(fields.file ?? []), ...(fields.files ?? [])]
+    .map((file) => ({ name: file.originalname, buffer: file.buffer }));
+}
+
+// Message for a rejected request; validation errors are summarised in one line per issue rather
+// than as the raw issue list
+function requestErrorMessage(error: unknown): string {
+  if (error instanceof ZodError) return fromZodError(error, { prefix: "Invalid request" }).message;
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Origin exported links point at; PUBLIC_BASE_URL overrides it when the server sits behind a proxy
+function publicBaseUrl(req: Request): string {
+  return process.env.PUBLIC_BASE_URL || `${req.protocol}://${req.get("host")}`;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server
@@ -23,18 +51,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Configure multer for file uploads
   const upload = multer({
     storage: multer.memoryStorage(),
-    limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit
+    limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit per file
     fileFilter: (_req, file, callback) => {
-      const allowedExtensions = ['.csv', '.xlsx', '.xls'];
+      const allowedExtensions = [...INPUT_EXTENSIONS, '.zip'];
       const ext = path.extname(file.originalname).toLowerCase();
       
       if (allowedExtensions.includes(ext)) {
         callback(null, true);
       } else {
-        callback(new Error('Only CSV and Excel files are allowed'));
+        callback(new Error('Only CSV, Excel and ZIP files are allowed'));
       }
     }
   });
+  const uploadFields = upload.fields([{ name: 'file', maxCount: 1 }, { name: 'files', maxCount: 20 }]);
 
   // API routes
   app.post("/api/track/single", async (req, res) => {
@@ -49,64 +78,150 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid MAWB format" });
       }
       
-      const result = await trackAWB(prefix, awbNo);
+      const carrier = getCarrierAdapter(prefix);
+      
+      if (!carrier) {
+        return res.status(422).json({ message: `Unsupported carrier for prefix ${prefix}` });
+      }
+      
+      const { result, retries, documents, cached } = await trackAWB(prefix, awbNo);
+      const latestDocument = documents[documents.length - 1];
       
       return res.json({
         mawb: body.mawb,
         prefix,
         awbNo,
-        ...result
+        carrier: carrier.id,
+        retries,
+        cached,
+        ...result,
+        // Link the archived delivery orders rather than the carrier's short-lived links
+        doUrl: latestDocument ? documentUrl(latestDocument.mawb, latestDocument.id) : result.doUrl,
+        documents: documents.map((document) => ({
+          url: documentUrl(document.mawb, document.id),
+          filename: document.filename
+        }))
       });
     } catch (error) {
       console.error("Error in /api/track/single:", error);
-      return res.status(400).json({ message: error.message });
+      if (error instanceof CarrierError) {
+        return res.status(502).json({
+          message: error.message,
+          errorClass: error.errorClass,
+          retries: error.retries,
+        });
+      }
+      return res.status(400).json({ message: requestErrorMessage(error) });
+    }
+  });
+  
+  // Show the sheets, headers and sample rows of the uploaded files, which sheets and AWB columns
+  // would be tracked and how many of their rows are valid, so the selection can be confirmed before
+  // a job is created
+  app.post("/api/track/preview", uploadFields, async (req, res) => {
+    try {
+      const files = uploadedFiles(req);
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      
+      const { selection } = z.object({ selection: inputSelection.optional() }).parse(req.body);
+      
+      return res.json(previewInputFiles(files, selection));
+    } catch (error) {
+      console.error("Error in /api/track/preview:", error);
+      return res.status(400).json({ message: requestErrorMessage(error) });
     }
   });
   
-  // Upload and process file
-  app.post("/api/track/file", upload.single('file'), async (req, res) => {
+  // Upload and process files; every selected sheet of every file (or ZIP archive) becomes part of one job
+  app.post("/api/track/file", uploadFields, async (req, res) => {
     try {
-      if (!req.file) {
+      const files = uploadedFiles(req);
+      if (files.length === 0) {
         return res.status(400).json({ message: "No file uploaded" });
       }
       
       // Validate request body
       const body = z.object({
         delay: z.coerce.number().min(50).max(1000).default(100),
+        concurrency: z.coerce.number().int().min(1).max(maxJobConcurrency).default(1),
+        priority: jobPriority.default("normal"),
+        selection: inputSelection.optional(),
       }).parse(req.body);
       
-      // Get file details
-      const { originalname, buffer, mimetype } = req.file;
+      // Parse up front so bad files are rejected immediately and the input survives restarts
+      const { rows, columns } = parseInputFiles(files, body.selection);
       
       // Create a new job
       const job: InsertTrackJob = {
-        filename: originalname,
-        totalCount: 0, // Will be updated during processing
+        filename: files.length > 1 ? `${files[0].name} +${files.length - 1} more` : files[0].name,
+        totalCount: rows.length,
+        delay: body.delay,
+        concurrency: body.concurrency,
+        priority: body.priority,
+        inputColumns: columns,
       };
       
       const createdJob = await storage.createTrackJob(job);
+      await saveJobInput(createdJob.id, rows);
       
-      // Start processing in the background
-      (async () => {
-        try {
-          if (mimetype === 'text/csv' || originalname.endsWith('.csv')) {
-            await processCSVFile(buffer, createdJob.id, body.delay, wss);
-          } else {
-            await processExcelFile(buffer, createdJob.id, body.delay, wss);
-          }
-        } catch (error) {
-          console.error(`Error processing job ${createdJob.id}:`, error);
-          await storage.updateTrackJobStatus(createdJob.id, 'failed');
-        }
-      })();
+      // Start processing in the background once a queue slot is free
+      await enqueueTrackingJob(createdJob, wss);
       
       return res.json({
         jobId: createdJob.id,
-        message: "File processing started",
+        queuePosition: getQueuePosition(createdJob.id) ?? null,
+        // Corrected, rejected and duplicate rows, known before any lookup is made
+        preflight: buildPreflightReport(rows),
+        message: "File processing queued",
       });
     } catch (error) {
       console.error("Error in /api/track/file:", error);
-      return res.status(400).json({ message: error.message });
+      return res.status(400).json({ message: requestErrorMessage(error) });
+    }
+  });
+  
+  // Track a list of AWBs without a file: a JSON array of MAWBs, an object with the list under
+  // `mawbs` (as an array or pasted text) alongside the job settings, or a plain-text body
+  app.post("/api/track/batch", express.text({ limit: "1mb" }), async (req, res) => {
+    try {
+      const payload = typeof req.body === "string" || Array.isArray(req.body) ? { mawbs: req.body } : req.body;
+      const body = z.object({
+        mawbs: z.union([z.string(), z.array(z.string())]),
+        delay: z.coerce.number().min(50).max(1000).default(100),
+        concurrency: z.coerce.number().int().min(1).max(maxJobConcurrency).default(1),
+        priority: jobPriority.default("normal"),
+      }).parse(payload);
+      
+      const rows = parseAwbList(body.mawbs);
+      if (rows.length === 0) {
+        return res.status(400).json({ message: "No AWBs given" });
+      }
+      if (rows.length > MAX_BATCH_SIZE) {
+        return res.status(400).json({ message: `At most ${MAX_BATCH_SIZE} AWBs can be tracked at once; upload a file instead` });
+      }
+      
+      const createdJob = await storage.createTrackJob({
+        filename: `Pasted list (${rows.length} AWBs)`,
+        totalCount: rows.length,
+        delay: body.delay,
+        concurrency: body.concurrency,
+        priority: body.priority,
+      });
+      await saveJobInput(createdJob.id, rows);
+      
+      await enqueueTrackingJob(createdJob, wss);
+      
+      return res.json({
+        jobId: createdJob.id,
+        queuePosition: getQueuePosition(createdJob.id) ?? null,
+        preflight: buildPreflightReport(rows),
+        message: "Batch processing queued",
+      });
+    } catch (error) {
+      console.error("Error in /api/track/batch:", error);
+      return res.status(400).json({ message: requestErrorMessage(error) });
     }
   });
   
@@ -125,7 +240,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Job not found" });
       }
       
-      return res.json(job);
+      return res.json({ ...job, queuePosition: getQueuePosition(job.id) ?? null });
     } catch (error) {
       console.error("Error in /api/track/jobs/:id:", error);
       return res.status(500).json({ message: error.message });
@@ -136,13 +251,128 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/track/jobs", async (_req, res) => {
     try {
       const jobs = await storage.getTrackJobs();
-      return res.json(jobs);
+      return res.json(jobs.map((job) => ({ ...job, queuePosition: getQueuePosition(job.id) ?? null })));
     } catch (error) {
       console.error("Error in /api/track/jobs:", error);
       return res.status(500).json({ message: error.message });
     }
   });
   
+  // Get per-row outcomes for a job, optionally filtered by outcome (e.g. ?outcome=error,invalid)
+  app.get("/api/track/jobs/:id/outcomes", async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      
+      if (isNaN(jobId)) {
+        return res.status(400).json({ message: "Invalid job ID" });
+      }
+      
+      const query = z.object({
+        outcome: z.string().optional()
+          .transform((value) => value ? value.split(",") : undefined)
+          .pipe(z.array(rowOutcome).optional())
+      }).safeParse(req.query);
+      
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid outcome filter" });
+      }
+      
+      const outcomes = await storage.getTrackRowOutcomesByJob(jobId, query.data.outcome);
+      
+      return res.json(outcomes);
+    } catch (error) {
+      console.error("Error in /api/track/jobs/:id/outcomes:", error);
+      return res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Pre-flight report of a job's input: corrected, rejected and duplicate rows
+  app.get("/api/track/jobs/:id/preflight", async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      
+      if (isNaN(jobId)) {
+        return res.status(400).json({ message: "Invalid job ID" });
+      }
+      
+      const rows = await storage.getTrackJobInput(jobId);
+      
+      if (!rows) {
+        return res.status(404).json({ message: "Job input not found" });
+      }
+      
+      return res.json(buildPreflightReport(rows));
+    } catch (error) {
+      console.error("Error in /api/track/jobs/:id/preflight:", error);
+      return res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Retry the rows of a finished job that errored, as a child job
+  app.post("/api/track/jobs/:id/retry-failed", async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      
+      if (isNaN(jobId)) {
+        return res.status(400).json({ message: "Invalid job ID" });
+      }
+      
+      const body = z.object({
+        delay: z.coerce.number().min(50).max(1000).default(100),
+        concurrency: z.coerce.number().int().min(1).max(maxJobConcurrency).optional(),
+      }).parse(req.body ?? {});
+      
+      const parentJob = await storage.getTrackJob(jobId);
+      
+      if (!parentJob) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      
+      if (!["completed", "failed", "cancelled"].includes(parentJob.status)) {
+        return res.status(409).json({ message: "Only a finished job can be retried" });
+      }
+      
+      const failedRows = await storage.getTrackRowOutcomesByJob(jobId, ["error"]);
+      
+      if (failedRows.length === 0) {
+        return res.status(400).json({ message: "Job has no failed rows to retry" });
+      }
+      
+      // Keep the parent's row numbers, source cells and origins so the results merge back onto the source files
+      const parentInput = await storage.getTrackJobInput(jobId);
+      const parentRows = new Map(parentInput?.map((row) => [row.rowNumber, row]));
+      const rows = failedRows.map((outcome) => ({
+        rowNumber: outcome.rowNumber,
+        mawb: outcome.rawInput,
+        source: parentRows.get(outcome.rowNumber)?.source,
+        origin: parentRows.get(outcome.rowNumber)?.origin,
+      }));
+      
+      const childJob = await storage.createTrackJob({
+        filename: parentJob.filename,
+        totalCount: rows.length,
+        delay: body.delay,
+        concurrency: body.concurrency ?? parentJob.concurrency,
+        parentJobId: parentJob.id,
+        inputColumns: parentJob.inputColumns,
+      });
+      await saveJobInput(childJob.id, rows);
+      
+      // Start processing in the background once a queue slot is free
+      await enqueueTrackingJob(childJob, wss);
+      
+      return res.json({
+        jobId: childJob.id,
+        parentJobId: parentJob.id,
+        queuePosition: getQueuePosition(childJob.id) ?? null,
+        message: `Retrying ${rows.length} failed rows`,
+      });
+    } catch (error) {
+      console.error("Error in /api/track/jobs/:id/retry-failed:", error);
+      return res.status(400).json({ message: (error as Error).message });
+    }
+  });
+  
   // Control job (pause, resume, cancel)
   app.post("/api/track/jobs/:id/control", async (req, res) => {
     try {
@@ -162,18 +392,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Job not found" });
       }
       
-      let newStatus;
+      let newStatus: TrackJobStatus;
       switch (body.action) {
         case "pause":
           newStatus = "paused";
+          // Ask the worker to park at the next row boundary
+          if (job.status !== "processing" || !pauseTrackingJob(jobId)) {
+            return res.status(409).json({ message: "Only a running job can be paused" });
+          }
           break;
         case "resume":
           newStatus = "processing";
+          if (job.status !== "paused") {
+            return res.status(409).json({ message: "Only a paused job can be resumed" });
+          }
+          // Wake the parked worker, or re-queue from the checkpoint if the server restarted meanwhile
+          if (!resumeTrackingJob(jobId)) {
+            if (!await storage.getTrackJobInput(jobId)) {
+              return res.status(409).json({ message: "Job input is no longer available" });
+            }
+            await enqueueTrackingJob(job, wss);
+            return res.json({
+              job: await storage.getTrackJob(jobId),
+              message: "Job re-queued successfully"
+            });
+          }
           break;
         case "cancel":
           newStatus = "cancelled";
-          // Mark job as cancelled in tracking system
-          cancelTrackingJob(jobId);
+          // Drop the job from the queue, or mark it as cancelled in tracking system
+          if (!dequeueTrackingJob(jobId)) {
+            cancelTrackingJob(jobId);
+          }
           break;
       }
       
@@ -198,12 +448,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid job ID" });
       }
       
-      const results = await storage.getTrackResultsByJob(jobId);
+      const query = trackResultQuerySchema.parse(req.query);
+      
+      // ?consolidated=true merges the results of the job's retry family
+      const jobIds = req.query.consolidated === "true" ? await getJobFamilyIds(jobId) : [jobId];
+      const page = await storage.queryTrackResults(jobIds, query);
       
-      return res.json(results);
+      return res.json(page);
     } catch (error) {
       console.error("Error in /api/track/results/:jobId:", error);
-      return res.status(500).json({ message: error.message });
+      if (error instanceof ZodError || error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: requestErrorMessage(error) });
+      }
+      return res.status(500).json({ message: (error as Error).message });
     }
   });
   
@@ -216,14 +473,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid job ID" });
       }
       
-      const results = await storage.getTrackResultsByJob(jobId);
       const job = await storage.getTrackJob(jobId);
       
       if (!job) {
         return res.status(404).json({ message: "Job not found" });
       }
       
-      const buffer = await generateExcelFile(results);
+      // ?consolidated=true merges the results of the job's retry family
+      const { results, issues } = req.query.consolidated === "true"
+        ? await getConsolidatedResults(jobId)
+        : {
+            results: await storage.getTrackResultsByJob(jobId),
+            issues: await storage.getTrackRowOutcomesByJob(jobId, ["invalid", "duplicate", "error", "unsupported"]),
+          };
+      
+      // ?columns=Consignee&columns=HAWB picks the input columns to copy into the export, so names
+      // may hold commas; all by default and none for a single empty ?columns=
+      const inputColumns = req.query.columns === undefined
+        ? job.inputColumns
+        : ([] as unknown[]).concat(req.query.columns).filter((column): column is string =>
+            typeof column === "string" && job.inputColumns.includes(column));
+      
+      // Issues are listed with the file, sheet and row they were read from
+      const origins = await getIssueOrigins(issues);
+      
+      const buffer = await generateExcelFile(results, issues, publicBaseUrl(req), inputColumns, origins);
       
       // Set response headers
       res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
@@ -250,9 +524,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         spreadsheetId: z.string().min(1)
       }).parse(req.body);
       
-      const results = await storage.getTrackResultsByJob(jobId);
+      // ?consolidated=true merges the results of the job's retry family, as the Excel export does
+      const { results } = req.query.consolidated === "true"
+        ? await getConsolidatedResults(jobId)
+        : { results: await storage.getTrackResultsByJob(jobId) };
       
-      const message = await updateGoogleSheet(body.spreadsheetId, results);
+      const message = await updateGoogleSheet(body.spreadsheetId, results, publicBaseUrl(req));
       
       return res.json({ message });
     } catch (error) {
@@ -261,5 +538,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Milestone history from the most recent lookup of an AWB
+  app.get("/api/shipments/:mawb/events", async (req, res) => {
+    try {
+      const { prefix, awbNo } = splitMAWB(req.params.mawb);
+      
+      if (!prefix || !awbNo) {
+        return res.status(400).json({ message: "Invalid MAWB format" });
+      }
+      
+      const result = await storage.getLatestTrackResultByAwb(prefix, awbNo);
+      
+      if (!result) {
+        return res.status(404).json({ message: "Shipment has not been tracked yet" });
+      }
+      
+      const events = await storage.getTrackEventsByResult(result.id);
+      
+      return res.json({
+        mawb: result.mawb,
+        resultId: result.id,
+        trackedAt: result.createdAt,
+        events,
+      });
+    } catch (error) {
+      console.error("Error in /api/shipments/:mawb/events:", error);
+      return res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // List the delivery orders archived for an AWB
+  app.get("/api/shipments/:mawb/documents", async (req, res) => {
+    try {
+      const awb = normalizeMAWB(req.params.mawb);
+      
+      if (!awb.valid) {
+        return res.status(400).json({ message: "Invalid MAWB format" });
+      }
+      
+      const documents = await storage.getTrackDocumentsByMawb(awb.mawb);
+      
+      return res.json({ mawb: awb.mawb, documents });
+    } catch (error) {
+      console.error("Error in /api/shipments/:mawb/documents:", error);
+      return res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Serve an archived delivery order, refusing a file that no longer matches its checksum
+  app.get("/api/shipments/:mawb/documents/:id", async (req, res) => {
+    try {
+      const awb = normalizeMAWB(req.params.mawb);
+      const documentId = parseInt(req.params.id);
+      
+      if (!awb.valid || isNaN(documentId)) {
+        return res.status(400).json({ message: "Invalid MAWB or document ID" });
+      }
+      
+      const document = await storage.getTrackDocument(documentId);
+      
+      if (!document || document.mawb !== awb.mawb) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const data = await getBlobStore().get(document.storageKey);
+      
+      if (!data) {
+        return res.status(404).json({ message: "Document file is missing from storage" });
+      }
+      
+      if (checksumOf(data) !== document.checksum) {
+        console.error(`Checksum mismatch for document ${document.id} (${document.storageKey})`);
+        return res.status(500).json({ message: "Document file is corrupt" });
+      }
+      
+      // Archived files never change, so clients may cache them indefinitely
+      res.setHeader('Content-Type', document.contentType);
+      res.setHeader('Content-Disposition', `inline; filename="${document.filename}"`);
+      res.setHeader('ETag', `"${document.checksum}"`);
+      res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+      return res.send(data);
+    } catch (error) {
+      console.error("Error in /api/shipments/:mawb/documents/:id:", error);
+      return res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Pick up jobs interrupted by the last shutdown
+  await recoverInterruptedJobs(wss);
+
   return httpServer;
 }
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { getStationTimeZone, parseLocalTimestamp } from "./stations";
+
+describe("getStationTimeZone", () => {
+  it("looks stations up by IATA code, ignoring case and spaces", () => {
+    expect(getStationTimeZone("KUL")).toBe("Asia/Kuala_Lumpur");
+    expect(getStationTimeZone(" bki ")).toBe("Asia/Kuching");
+    expect(getStationTimeZone("SYD")).toBe("Australia/Sydney");
+  });
+
+  it.each([null, undefined, "", "XXX", "Kuala Lumpur"])("knows no zone for %j", (station) => {
+    expect(getStationTimeZone(station)).toBeUndefined();
+  });
+});
+
+describe("parseLocalTimestamp", () => {
+  it.each([
+    ["14 Mar 2025 09:42", "2025-03-14T01:42:00.000Z"],
+    ["14 Mar 2025 09:42:30", "2025-03-14T01:42:30.000Z"],
+    ["14-Mar-2025 09:42", "2025-03-14T01:42:00.000Z"],
+    ["14/03/2025 09:42", "2025-03-14T01:42:00.000Z"],
+    ["14/03/2025 09:42 pm", "2025-03-14T13:42:00.000Z"],
+    ["2025-03-14 09:42:30", "2025-03-14T01:42:30.000Z"],
+    ["  14   Mar 2025  09:42 ", "2025-03-14T01:42:00.000Z"],
+    ["14 Mar 2025", "2025-03-13T16:00:00.000Z"],
+  ])("reads %j in Kuala Lumpur time", (text, utc) => {
+    expect(parseLocalTimestamp(text, "Asia/Kuala_Lumpur")?.toISOString()).toBe(utc);
+  });
+
+  it("applies zones with odd offsets", () => {
+    expect(parseLocalTimestamp("2025-03-14 09:42", "Asia/Kolkata")?.toISOString()).toBe("2025-03-14T04:12:00.000Z");
+    expect(parseLocalTimestamp("2025-03-14 09:42", "Asia/Kathmandu")?.toISOString()).toBe("2025-03-14T03:57:00.000Z");
+  });
+
+  // Sydney moves from UTC+10 to UTC+11 at 02:00 on 6 Oct 2024 and back at 03:00 on 7 Apr 2024
+  it.each([
+    ["06 Oct 2024 01:30", "2024-10-05T15:30:00.000Z"],
+    ["06 Oct 2024 03:30", "2024-10-05T16:30:00.000Z"],
+    ["07 Apr 2024 01:30", "2024-04-06T14:30:00.000Z"],
+    ["07 Apr 2024 03:30", "2024-04-06T17:30:00.000Z"],
+  ])("uses the offset in force at %j in Sydney", (text, utc) => {
+    expect(parseLocalTimestamp(text, "Australia/Sydney")?.toISOString()).toBe(utc);
+  });
+
+  it("moves a time skipped by the clocks going forward past the change", () => {
+    expect(parseLocalTimestamp("06 Oct 2024 02:30", "Australia/Sydney")?.toISOString()).toBe("2024-10-05T16:30:00.000Z");
+  });
+
+  it("reads a time repeated by the clocks going back as its second occurrence", () => {
+    expect(parseLocalTimestamp("07 Apr 2024 02:30", "Australia/Sydney")?.toISOString()).toBe("2024-04-06T16:30:00.000Z");
+  });
+
+  it("uses the summer offset across the year boundary in Auckland", () => {
+    expect(parseLocalTimestamp("01 Jan 2025 00:00", "Pacific/Auckland")?.toISOString()).toBe("2024-12-31T11:00:00.000Z");
+    expect(parseLocalTimestamp("01 Jul 2025 00:00", "Pacific/Auckland")?.toISOString()).toBe("2025-06-30T12:00:00.000Z");
+  });
+
+  it.each([null, undefined, "", "   ", "yesterday", "14 Foo 2025 09:42"])("has no time in %j", (text) => {
+    expect(parseLocalTimestamp(text, "Asia/Kuala_Lumpur")).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import { isValid, parse } from "date-fns";
+
+// IANA time zones of the stations on the carriers' networks, by IATA airport code
+const STATION_TIME_ZONES: Record<string, string> = {
+  // Malaysia
+  KUL: "Asia/Kuala_Lumpur", PEN: "Asia/Kuala_Lumpur", BKI: "Asia/Kuching", KCH: "Asia/Kuching",
+  JHB: "Asia/Kuala_Lumpur", LGK: "Asia/Kuala_Lumpur", TWU: "Asia/Kuching", SDK: "Asia/Kuching",
+  MYY: "Asia/Kuching", SBW: "Asia/Kuching", KBR: "Asia/Kuala_Lumpur", IPH: "Asia/Kuala_Lumpur",
+  // South East Asia
+  SIN: "Asia/Singapore", BKK: "Asia/Bangkok", DMK: "Asia/Bangkok", HKT: "Asia/Bangkok",
+  CNX: "Asia/Bangkok", CGK: "Asia/Jakarta", SUB: "Asia/Jakarta", KNO: "Asia/Jakarta",
+  DPS: "Asia/Makassar", LOP: "Asia/Makassar", MNL: "Asia/Manila", CEB: "Asia/Manila",
+  CRK: "Asia/Manila", SGN: "Asia/Ho_Chi_Minh", HAN: "Asia/Ho_Chi_Minh", DAD: "Asia/Ho_Chi_Minh",
+  PNH: "Asia/Phnom_Penh", REP: "Asia/Phnom_Penh", RGN: "Asia/Yangon", VTE: "Asia/Vientiane",
+  BWN: "Asia/Brunei",
+  // East Asia
+  HKG: "Asia/Hong_Kong", MFM: "Asia/Macau", TPE: "Asia/Taipei", CAN: "Asia/Shanghai",
+  PEK: "Asia/Shanghai", PVG: "Asia/Shanghai", SZX: "Asia/Shanghai", ICN: "Asia/Seoul",
+  NRT: "Asia/Tokyo", HND: "Asia/Tokyo", KIX: "Asia/Tokyo",
+  // South Asia and Middle East
+  DEL: "Asia/Kolkata", BOM: "Asia/Kolkata", BLR: "Asia/Kolkata", MAA: "Asia/Kolkata",
+  CCU: "Asia/Kolkata", HYD: "Asia/Kolkata", COK: "Asia/Kolkata", DAC: "Asia/Dhaka",
+  CMB: "Asia/Colombo", KTM: "Asia/Kathmandu", MLE: "Indian/Maldives", JED: "Asia/Riyadh",
+  DXB: "Asia/Dubai",
+  // Oceania
+  SYD: "Australia/Sydney", MEL: "Australia/Melbourne", PER: "Australia/Perth",
+  OOL: "Australia/Brisbane", AKL: "Pacific/Auckland",
+};
+
+// Formats carriers print activity times in, tried in order
+const TIMESTAMP_FORMATS = [
+  "dd MMM yyyy HH:mm",
+  "dd MMM yyyy HH:mm:ss",
+  "dd-MMM-yyyy HH:mm",
+  "dd-MMM-yyyy HH:mm:ss",
+  "dd/MM/yyyy HH:mm",
+  "dd/MM/yyyy HH:mm:ss",
+  "dd/MM/yyyy hh:mm a",
+  "yyyy-MM-dd HH:mm",
+  "yyyy-MM-dd HH:mm:ss",
+  "dd MMM yyyy",
+  "dd-MMM-yyyy",
+  "dd/MM/yyyy",
+];
+
+// Time zone of a station, if the station is known
+export function getStationTimeZone(station: string | null | undefined): string | undefined {
+  return station ? STATION_TIME_ZONES[station.trim().toUpperCase()] : undefined;
+}
+
+// Offset of a time zone from UTC at an instant, in ms
+function timeZoneOffset(timeZone: string, instant: number): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    }).formatToParts(new Date(instant)).map((part) => [part.type, part.value]),
+  );
+  const local = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+  return local - instant;
+}
+
+// Parse a wall-clock time printed by a carrier as the local time of `timeZone`. Returns null
+// for text in none of the known formats
+export function parseLocalTimestamp(text: string | null | undefined, timeZone: string): Date | null {
+  const value = (text ?? "").trim().replace(/\s+/g, " ");
+  if (!value) return null;
+
+  for (const format of TIMESTAMP_FORMATS) {
+    // Parsed in the server's zone only to read the wall-clock fields back out
+    const local = parse(value, format, new Date(0));
+    if (!isValid(local)) continue;
+
+    const wallClock = Date.UTC(
+      local.getFullYear(), local.getMonth(), local.getDate(),
+      local.getHours(), local.getMinutes(), local.getSeconds(),
+    );
+    // Re-check the offset at the corrected instant so times near a DST change land right
+    let instant = wallClock - timeZoneOffset(timeZone, wallClock);
+    instant = wallClock - timeZoneOffset(timeZone, instant);
+    return new Date(instant);
+  }
+
+  return null;
+}
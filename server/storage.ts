@@ -5,11 +5,27 @@ import {
   trackResults,
   type TrackResult,
   type InsertTrackResult,
+  type TrackResultQuery,
+  type TrackResultPage,
+  trackEvents,
+  type TrackEvent,
+  type InsertTrackEvent,
+  trackDocuments,
+  type TrackDocument,
+  type InsertTrackDocument,
+  trackRowOutcomes,
+  type TrackRowOutcome,
+  type InsertTrackRowOutcome,
+  type RowOutcome,
   trackJobs,
+  trackJobInputs,
+  type TrackingRow,
   type TrackJob,
   type InsertTrackJob,
   type TrackJobStatus
 } from "@shared/schema";
+import { and, asc, count, desc, eq, gt, gte, ilike, inArray, lt, or, sql, type AnyColumn, type SQL } from "drizzle-orm";
+import { db, type Database } from "./db";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -22,6 +38,24 @@ export interface IStorage {
   // Track Results
   createTrackResult(result: InsertTrackResult): Promise<TrackResult>;
   getTrackResultsByJob(jobId: number): Promise<TrackResult[]>;
+  queryTrackResults(jobIds: number[], query: TrackResultQuery): Promise<TrackResultPage>;
+  getLatestTrackResultByAwb(prefix: string, awbNo: string): Promise<TrackResult | undefined>;
+  
+  // Track Events
+  createTrackEvents(events: InsertTrackEvent[]): Promise<TrackEvent[]>;
+  getTrackEventsByResult(resultId: number): Promise<TrackEvent[]>;
+  
+  // Track Documents; saving a file the AWB already has returns the stored document
+  saveTrackDocument(document: InsertTrackDocument): Promise<TrackDocument>;
+  getTrackDocument(id: number): Promise<TrackDocument | undefined>;
+  getTrackDocumentsByMawb(mawb: string): Promise<TrackDocument[]>;
+  
+  // Row Outcomes
+  createTrackRowOutcome(outcome: InsertTrackRowOutcome): Promise<TrackRowOutcome>;
+  // Store a tracked row's result, its events and its outcome together, so a crash never leaves a
+  // result without the outcome that marks its row as done
+  saveTrackedRow(result: InsertTrackResult, events: Omit<InsertTrackEvent, "resultId">[], outcome: Omit<InsertTrackRowOutcome, "resultId">): Promise<TrackResult>;
+  getTrackRowOutcomesByJob(jobId: number, outcomes?: RowOutcome[]): Promise<TrackRowOutcome[]>;
   
   // Track Jobs
   createTrackJob(job: InsertTrackJob): Promise<TrackJob>;
@@ -29,22 +63,100 @@ export interface IStorage {
   getTrackJobs(): Promise<TrackJob[]>;
   updateTrackJobStatus(id: number, status: TrackJobStatus): Promise<TrackJob>;
   updateTrackJobProgress(id: number, processedCount: number): Promise<TrackJob>;
+  updateTrackJobTotal(id: number, totalCount: number): Promise<TrackJob>;
+  addTrackJobWarning(id: number, warning: string): Promise<TrackJob>;
+  incrementTrackJobCachedCount(id: number): Promise<TrackJob>;
+  
+  // Job Inputs
+  saveTrackJobInput(jobId: number, rows: TrackingRow[]): Promise<void>;
+  getTrackJobInput(jobId: number): Promise<TrackingRow[] | undefined>;
+}
+
+// Keyset cursor: sort value and id of the last result on the previous page
+type ResultCursor = { value: string | number; id: number };
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+function encodeResultCursor(cursor: ResultCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeResultCursor(cursor: string): ResultCursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (typeof parsed.id === "number" && (typeof parsed.value === "string" || typeof parsed.value === "number")) {
+      return parsed;
+    }
+  } catch {
+    // fall through
+  }
+  throw new InvalidCursorError();
+}
+
+// Value a result is ordered by; missing text sorts as the empty string and missing numbers and
+// times (as epoch ms) as -1, so both come first
+function resultSortValue(result: TrackResult, sort: TrackResultQuery["sort"]): string | number {
+  switch (sort) {
+    case "id":
+      return result.id;
+    case "lastActAt":
+      return result.lastActAt?.getTime() ?? -1;
+    case "pieces":
+    case "weightKg":
+      return result[sort] ?? -1;
+    default:
+      return result[sort] ?? "";
+  }
+}
+
+// SQL counterpart of resultSortValue
+function resultSortColumn(sort: TrackResultQuery["sort"]): SQL {
+  switch (sort) {
+    case "id":
+      return sql`${trackResults.id}`;
+    case "lastActAt":
+      return sql`coalesce(extract(epoch from ${trackResults.lastActAt}) * 1000, -1)`;
+    case "pieces":
+    case "weightKg":
+      return sql`coalesce(${trackResults[sort]}, -1)`;
+    default:
+      return sql`coalesce(${trackResults[sort]}, '')`;
+  }
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private trackResults: Map<number, TrackResult>;
+  private trackEvents: Map<number, TrackEvent>;
+  private trackDocuments: Map<number, TrackDocument>;
+  private trackRowOutcomes: Map<number, TrackRowOutcome>;
   private trackJobs: Map<number, TrackJob>;
+  private trackJobInputs: Map<number, TrackingRow[]>;
   currentUserId: number;
   currentTrackResultId: number;
+  currentTrackEventId: number;
+  currentTrackDocumentId: number;
+  currentTrackRowOutcomeId: number;
   currentTrackJobId: number;
 
   constructor() {
     this.users = new Map();
     this.trackResults = new Map();
+    this.trackEvents = new Map();
+    this.trackDocuments = new Map();
+    this.trackRowOutcomes = new Map();
     this.trackJobs = new Map();
+    this.trackJobInputs = new Map();
     this.currentUserId = 1;
     this.currentTrackResultId = 1;
+    this.currentTrackEventId = 1;
+    this.currentTrackDocumentId = 1;
+    this.currentTrackRowOutcomeId = 1;
     this.currentTrackJobId = 1;
   }
 
@@ -79,7 +191,144 @@ export class MemStorage implements IStorage {
   }
 
   async getTrackResultsByJob(jobId: number): Promise<TrackResult[]> {
-    return Array.from(this.trackResults.values());
+    return Array.from(this.trackResults.values()).filter(
+      (result) => result.jobId === jobId,
+    );
+  }
+
+  async queryTrackResults(jobIds: number[], query: TrackResultQuery): Promise<TrackResultPage> {
+    const sameText = (value: string | null, filter?: string) =>
+      !filter || (value ?? "").toUpperCase() === filter.toUpperCase();
+
+    const matching = Array.from(this.trackResults.values()).filter((result) =>
+      jobIds.includes(result.jobId) &&
+      (!query.status || (result.status ?? "").toUpperCase().includes(query.status.toUpperCase())) &&
+      (!query.milestone || result.milestone === query.milestone) &&
+      sameText(result.origin, query.origin) &&
+      sameText(result.dest, query.dest) &&
+      sameText(result.prefix, query.prefix) &&
+      (!query.lastActFrom || (!!result.lastActAt && result.lastActAt >= query.lastActFrom)) &&
+      (!query.lastActTo || (!!result.lastActAt && result.lastActAt < query.lastActTo))
+    );
+
+    const direction = query.order === "desc" ? -1 : 1;
+    const compare = (value: string | number, id: number, other: ResultCursor) => {
+      if (value !== other.value) return (value < other.value ? -1 : 1) * direction;
+      return (id - other.id) * direction;
+    };
+
+    matching.sort((a, b) =>
+      compare(resultSortValue(a, query.sort), a.id, { value: resultSortValue(b, query.sort), id: b.id })
+    );
+
+    let remaining = matching;
+    if (query.cursor) {
+      const cursor = decodeResultCursor(query.cursor);
+      remaining = matching.filter((result) => compare(resultSortValue(result, query.sort), result.id, cursor) > 0);
+    }
+
+    const items = remaining.slice(0, query.limit);
+    const last = items[items.length - 1];
+    return {
+      items,
+      nextCursor: remaining.length > query.limit
+        ? encodeResultCursor({ value: resultSortValue(last, query.sort), id: last.id })
+        : null,
+      total: matching.length,
+      totals: {
+        pieces: matching.reduce((sum, result) => sum + (result.pieces ?? 0), 0),
+        weightKg: matching.reduce((sum, result) => sum + (result.weightKg ?? 0), 0),
+      },
+    };
+  }
+
+  async getLatestTrackResultByAwb(prefix: string, awbNo: string): Promise<TrackResult | undefined> {
+    return Array.from(this.trackResults.values())
+      .filter((result) => result.prefix === prefix && result.awbNo === awbNo)
+      .reduce<TrackResult | undefined>((latest, result) => (!latest || result.id > latest.id ? result : latest), undefined);
+  }
+
+  // Track Events
+  async createTrackEvents(insertEvents: InsertTrackEvent[]): Promise<TrackEvent[]> {
+    return insertEvents.map((insertEvent) => {
+      const id = this.currentTrackEventId++;
+      const event: TrackEvent = {
+        code: null,
+        description: null,
+        station: null,
+        flight: null,
+        pieces: null,
+        weight: null,
+        eventTime: null,
+        occurredAt: null,
+        ...insertEvent,
+        id
+      };
+      this.trackEvents.set(id, event);
+      return event;
+    });
+  }
+
+  async getTrackEventsByResult(resultId: number): Promise<TrackEvent[]> {
+    return Array.from(this.trackEvents.values())
+      .filter((event) => event.resultId === resultId)
+      .sort((a, b) => a.seq - b.seq);
+  }
+
+  // Track Documents
+  async saveTrackDocument(insertDocument: InsertTrackDocument): Promise<TrackDocument> {
+    const existing = Array.from(this.trackDocuments.values()).find(
+      (document) => document.mawb === insertDocument.mawb && document.checksum === insertDocument.checksum
+    );
+    if (existing) return existing;
+    
+    const id = this.currentTrackDocumentId++;
+    const document: TrackDocument = { ...insertDocument, id, createdAt: new Date() };
+    this.trackDocuments.set(id, document);
+    return document;
+  }
+
+  async getTrackDocument(id: number): Promise<TrackDocument | undefined> {
+    return this.trackDocuments.get(id);
+  }
+
+  async getTrackDocumentsByMawb(mawb: string): Promise<TrackDocument[]> {
+    return Array.from(this.trackDocuments.values())
+      .filter((document) => document.mawb === mawb)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  // Row Outcomes
+  async createTrackRowOutcome(insertOutcome: InsertTrackRowOutcome): Promise<TrackRowOutcome> {
+    const id = this.currentTrackRowOutcomeId++;
+    const outcome: TrackRowOutcome = {
+      errorMessage: null,
+      resultId: null,
+      ...insertOutcome,
+      errorClass: insertOutcome.errorClass ?? null,
+      retryCount: insertOutcome.retryCount ?? 0,
+      id,
+      createdAt: new Date()
+    };
+    this.trackRowOutcomes.set(id, outcome);
+    return outcome;
+  }
+
+  async saveTrackedRow(
+    insertResult: InsertTrackResult,
+    insertEvents: Omit<InsertTrackEvent, "resultId">[],
+    insertOutcome: Omit<InsertTrackRowOutcome, "resultId">
+  ): Promise<TrackResult> {
+    const result = await this.createTrackResult(insertResult);
+    await this.createTrackEvents(insertEvents.map((event) => ({ ...event, resultId: result.id })));
+    await this.createTrackRowOutcome({ ...insertOutcome, resultId: result.id });
+    return result;
+  }
+
+  async getTrackRowOutcomesByJob(jobId: number, outcomes?: RowOutcome[]): Promise<TrackRowOutcome[]> {
+    return Array.from(this.trackRowOutcomes.values())
+      .filter((row) => row.jobId === jobId && (!outcomes || outcomes.includes(row.outcome)))
+      .sort((a, b) => a.rowNumber - b.rowNumber);
   }
 
   // Track Jobs
@@ -87,9 +336,16 @@ export class MemStorage implements IStorage {
     const id = this.currentTrackJobId++;
     const now = new Date();
     const job: TrackJob = { 
+      delay: 100,
+      concurrency: 1,
+      priority: "normal",
+      parentJobId: null,
+      inputColumns: [],
       ...insertJob,
+      warnings: [],
       id, 
       processedCount: 0,
+      cachedCount: 0,
       status: "pending",
       createdAt: now,
       updatedAt: now
@@ -137,6 +393,329 @@ export class MemStorage implements IStorage {
     this.trackJobs.set(id, updatedJob);
     return updatedJob;
   }
+
+  async updateTrackJobTotal(id: number, totalCount: number): Promise<TrackJob> {
+    const job = await this.getTrackJob(id);
+    if (!job) {
+      throw new Error(`Track job with id ${id} not found`);
+    }
+    
+    const updatedJob: TrackJob = {
+      ...job,
+      totalCount,
+      updatedAt: new Date()
+    };
+    
+    this.trackJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async addTrackJobWarning(id: number, warning: string): Promise<TrackJob> {
+    const job = await this.getTrackJob(id);
+    if (!job) {
+      throw new Error(`Track job with id ${id} not found`);
+    }
+    
+    const updatedJob: TrackJob = {
+      ...job,
+      warnings: [...job.warnings, warning],
+      updatedAt: new Date()
+    };
+    
+    this.trackJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async incrementTrackJobCachedCount(id: number): Promise<TrackJob> {
+    const job = await this.getTrackJob(id);
+    if (!job) {
+      throw new Error(`Track job with id ${id} not found`);
+    }
+    
+    const updatedJob: TrackJob = {
+      ...job,
+      cachedCount: job.cachedCount + 1,
+      updatedAt: new Date()
+    };
+    
+    this.trackJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  // Job Inputs
+  async saveTrackJobInput(jobId: number, rows: TrackingRow[]): Promise<void> {
+    this.trackJobInputs.set(jobId, rows);
+  }
+
+  async getTrackJobInput(jobId: number): Promise<TrackingRow[] | undefined> {
+    return this.trackJobInputs.get(jobId);
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Track Results
+  async createTrackResult(insertResult: InsertTrackResult): Promise<TrackResult> {
+    const [result] = await this.db.insert(trackResults).values(insertResult).returning();
+    return result;
+  }
+
+  async getTrackResultsByJob(jobId: number): Promise<TrackResult[]> {
+    return this.db
+      .select()
+      .from(trackResults)
+      .where(eq(trackResults.jobId, jobId))
+      .orderBy(asc(trackResults.id));
+  }
+
+  async queryTrackResults(jobIds: number[], query: TrackResultQuery): Promise<TrackResultPage> {
+    const sameText = (column: AnyColumn, value: string) =>
+      sql`upper(${column}) = ${value.toUpperCase()}`;
+
+    const filters: SQL[] = [inArray(trackResults.jobId, jobIds)];
+    if (query.status) filters.push(ilike(trackResults.status, `%${query.status.replace(/[\\%_]/g, "\\$&")}%`));
+    if (query.milestone) filters.push(eq(trackResults.milestone, query.milestone));
+    if (query.origin) filters.push(sameText(trackResults.origin, query.origin));
+    if (query.dest) filters.push(sameText(trackResults.dest, query.dest));
+    if (query.prefix) filters.push(sameText(trackResults.prefix, query.prefix));
+    if (query.lastActFrom) filters.push(gte(trackResults.lastActAt, query.lastActFrom));
+    if (query.lastActTo) filters.push(lt(trackResults.lastActAt, query.lastActTo));
+
+    const [{ total, pieces, weightKg }] = await this.db
+      .select({
+        total: count(),
+        pieces: sql<number>`coalesce(sum(${trackResults.pieces}), 0)`.mapWith(Number),
+        weightKg: sql<number>`coalesce(sum(${trackResults.weightKg}), 0)`.mapWith(Number),
+      })
+      .from(trackResults)
+      .where(and(...filters));
+
+    const sortColumn = resultSortColumn(query.sort);
+    const after = query.order === "desc" ? lt : gt;
+    const orderBy = query.order === "desc" ? desc : asc;
+
+    const pageFilters = [...filters];
+    if (query.cursor) {
+      const cursor = decodeResultCursor(query.cursor);
+      pageFilters.push(query.sort === "id"
+        ? after(trackResults.id, cursor.id)
+        : or(
+            after(sortColumn, cursor.value),
+            and(eq(sortColumn, cursor.value), after(trackResults.id, cursor.id)),
+          )!);
+    }
+
+    // Fetch one extra row to know whether another page follows
+    const rows = await this.db
+      .select()
+      .from(trackResults)
+      .where(and(...pageFilters))
+      .orderBy(orderBy(sortColumn), orderBy(trackResults.id))
+      .limit(query.limit + 1);
+
+    const items = rows.slice(0, query.limit);
+    const last = items[items.length - 1];
+    return {
+      items,
+      nextCursor: rows.length > query.limit
+        ? encodeResultCursor({ value: resultSortValue(last, query.sort), id: last.id })
+        : null,
+      total,
+      totals: { pieces, weightKg },
+    };
+  }
+
+  async getLatestTrackResultByAwb(prefix: string, awbNo: string): Promise<TrackResult | undefined> {
+    const [result] = await this.db
+      .select()
+      .from(trackResults)
+      .where(and(eq(trackResults.prefix, prefix), eq(trackResults.awbNo, awbNo)))
+      .orderBy(desc(trackResults.id))
+      .limit(1);
+    return result;
+  }
+
+  // Track Events
+  async createTrackEvents(insertEvents: InsertTrackEvent[]): Promise<TrackEvent[]> {
+    if (insertEvents.length === 0) return [];
+    return this.db.insert(trackEvents).values(insertEvents).returning();
+  }
+
+  async getTrackEventsByResult(resultId: number): Promise<TrackEvent[]> {
+    return this.db
+      .select()
+      .from(trackEvents)
+      .where(eq(trackEvents.resultId, resultId))
+      .orderBy(asc(trackEvents.seq));
+  }
+
+  // Track Documents
+  async saveTrackDocument(insertDocument: InsertTrackDocument): Promise<TrackDocument> {
+    const [document] = await this.db
+      .insert(trackDocuments)
+      .values(insertDocument)
+      .onConflictDoNothing({ target: [trackDocuments.mawb, trackDocuments.checksum] })
+      .returning();
+    if (document) return document;
+    
+    const [existing] = await this.db
+      .select()
+      .from(trackDocuments)
+      .where(and(eq(trackDocuments.mawb, insertDocument.mawb), eq(trackDocuments.checksum, insertDocument.checksum)));
+    return existing;
+  }
+
+  async getTrackDocument(id: number): Promise<TrackDocument | undefined> {
+    const [document] = await this.db.select().from(trackDocuments).where(eq(trackDocuments.id, id));
+    return document;
+  }
+
+  async getTrackDocumentsByMawb(mawb: string): Promise<TrackDocument[]> {
+    return this.db
+      .select()
+      .from(trackDocuments)
+      .where(eq(trackDocuments.mawb, mawb))
+      .orderBy(asc(trackDocuments.id));
+  }
+
+  // Row Outcomes
+  async createTrackRowOutcome(insertOutcome: InsertTrackRowOutcome): Promise<TrackRowOutcome> {
+    const [outcome] = await this.db.insert(trackRowOutcomes).values(insertOutcome).returning();
+    return outcome;
+  }
+
+  async saveTrackedRow(
+    insertResult: InsertTrackResult,
+    insertEvents: Omit<InsertTrackEvent, "resultId">[],
+    insertOutcome: Omit<InsertTrackRowOutcome, "resultId">
+  ): Promise<TrackResult> {
+    return this.db.transaction(async (tx) => {
+      const [result] = await tx.insert(trackResults).values(insertResult).returning();
+      if (insertEvents.length > 0) {
+        await tx.insert(trackEvents).values(insertEvents.map((event) => ({ ...event, resultId: result.id })));
+      }
+      await tx.insert(trackRowOutcomes).values({ ...insertOutcome, resultId: result.id });
+      return result;
+    });
+  }
+
+  async getTrackRowOutcomesByJob(jobId: number, outcomes?: RowOutcome[]): Promise<TrackRowOutcome[]> {
+    const filters: SQL[] = [eq(trackRowOutcomes.jobId, jobId)];
+    if (outcomes) filters.push(inArray(trackRowOutcomes.outcome, outcomes));
+    return this.db
+      .select()
+      .from(trackRowOutcomes)
+      .where(and(...filters))
+      .orderBy(asc(trackRowOutcomes.rowNumber));
+  }
+
+  // Track Jobs
+  async createTrackJob(insertJob: InsertTrackJob): Promise<TrackJob> {
+    const [job] = await this.db.insert(trackJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getTrackJob(id: number): Promise<TrackJob | undefined> {
+    const [job] = await this.db.select().from(trackJobs).where(eq(trackJobs.id, id));
+    return job;
+  }
+
+  async getTrackJobs(): Promise<TrackJob[]> {
+    return this.db.select().from(trackJobs).orderBy(asc(trackJobs.id));
+  }
+
+  async updateTrackJobStatus(id: number, status: TrackJobStatus): Promise<TrackJob> {
+    const [job] = await this.db
+      .update(trackJobs)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(trackJobs.id, id))
+      .returning();
+    if (!job) {
+      throw new Error(`Track job with id ${id} not found`);
+    }
+    return job;
+  }
+
+  async updateTrackJobProgress(id: number, processedCount: number): Promise<TrackJob> {
+    const [job] = await this.db
+      .update(trackJobs)
+      .set({ processedCount, updatedAt: new Date() })
+      .where(eq(trackJobs.id, id))
+      .returning();
+    if (!job) {
+      throw new Error(`Track job with id ${id} not found`);
+    }
+    return job;
+  }
+
+  async updateTrackJobTotal(id: number, totalCount: number): Promise<TrackJob> {
+    const [job] = await this.db
+      .update(trackJobs)
+      .set({ totalCount, updatedAt: new Date() })
+      .where(eq(trackJobs.id, id))
+      .returning();
+    if (!job) {
+      throw new Error(`Track job with id ${id} not found`);
+    }
+    return job;
+  }
+
+  async addTrackJobWarning(id: number, warning: string): Promise<TrackJob> {
+    const [job] = await this.db
+      .update(trackJobs)
+      .set({
+        warnings: sql`${trackJobs.warnings} || ${JSON.stringify([warning])}::jsonb`,
+        updatedAt: new Date()
+      })
+      .where(eq(trackJobs.id, id))
+      .returning();
+    if (!job) {
+      throw new Error(`Track job with id ${id} not found`);
+    }
+    return job;
+  }
+
+  async incrementTrackJobCachedCount(id: number): Promise<TrackJob> {
+    const [job] = await this.db
+      .update(trackJobs)
+      .set({ cachedCount: sql`${trackJobs.cachedCount} + 1`, updatedAt: new Date() })
+      .where(eq(trackJobs.id, id))
+      .returning();
+    if (!job) {
+      throw new Error(`Track job with id ${id} not found`);
+    }
+    return job;
+  }
+
+  // Job Inputs
+  async saveTrackJobInput(jobId: number, rows: TrackingRow[]): Promise<void> {
+    await this.db
+      .insert(trackJobInputs)
+      .values({ jobId, rows })
+      .onConflictDoUpdate({ target: trackJobInputs.jobId, set: { rows } });
+  }
+
+  async getTrackJobInput(jobId: number): Promise<TrackingRow[] | undefined> {
+    const [input] = await this.db.select().from(trackJobInputs).where(eq(trackJobInputs.jobId, jobId));
+    return input?.rows;
+  }
 }
 
-export const storage = new MemStorage();
+// Persist to PostgreSQL when DATABASE_URL is set, otherwise keep everything in memory for dev
+export const storage: IStorage = db ? new DatabaseStorage(db) : new MemStorage();
@@ -0,0 +1,223 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createSmartkargoSimulator, registerCarrierAdapter, type SimulatorOptions } from "./carriers";
+import { createSmartkargoAdapter } from "./carriers/smartkargo";
+import { storage } from "./storage";
+import { cancelTrackingJob, getConsolidatedResults, getIssueOrigins, processRowList, trackAWB } from "./tracking";
+
+// Every lookup goes through the smartkargo adapter to a simulated portal on a local port; results
+// are kept in memory and archived documents in a temporary directory
+describe("tracking against the smartkargo simulator", () => {
+  let server: Server;
+  let blobDir: string;
+
+  beforeAll(async () => {
+    blobDir = fs.mkdtempSync(path.join(os.tmpdir(), "awb-blobs-"));
+    vi.stubEnv("BLOB_STORE_DIR", blobDir);
+    vi.stubEnv("CARRIER_RATE_PER_SEC", "100");
+    vi.stubEnv("CARRIER_RATE_BURST", "100");
+
+    const app = express();
+    app.use(createSmartkargoSimulator({
+      latencyMs: [5, 30],
+      progressions: {
+        "807-12345712": ["Delivered"],
+        "807-12345815": ["Notified to consignee"],
+        "807-12345723": [""],
+      },
+    }));
+    server = app.listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+
+    registerCarrierAdapter(createSmartkargoAdapter({
+      id: "airasia",
+      name: "AirAsia",
+      baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      prefixes: ["807"],
+      timeZone: "Asia/Kuala_Lumpur",
+    }));
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    server?.close();
+    fs.rmSync(blobDir, { recursive: true, force: true });
+  });
+
+  it("tracks AWBs looked up at the same time", async () => {
+    const serials = ["12345675", "12345686", "12345690", "12345701", "12345734", "12345745", "12345756", "12345760"];
+
+    const tracked = await Promise.all(serials.map((serial) => trackAWB("807", serial)));
+
+    for (const { result, retries, cached } of tracked) {
+      expect(result).toMatchObject({ status: "Booked", milestone: "BKD", origin: "KUL", dest: "SIN" });
+      expect(retries).toBe(0);
+      expect(cached).toBe(false);
+    }
+  });
+
+  it("gives requests that join a lookup the delivery orders it archived", async () => {
+    const [first, joined] = await Promise.all([trackAWB("807", "12345815"), trackAWB("807", "12345815")]);
+
+    expect(first.cached).toBe(false);
+    expect(joined.cached).toBe(true);
+    expect(first.documents).toHaveLength(1);
+    expect(joined.documents).toEqual(first.documents);
+    expect(await storage.getTrackDocumentsByMawb("807-12345815")).toEqual(first.documents);
+  });
+
+  it("tracks every row of a job and archives delivery orders", async () => {
+    const mawbs = ["807-12345771", "807-12345782", "807-12345793", "807-12345804", "807-12345712", "807-12345723"];
+    const job = await storage.createTrackJob({ filename: "simulated.csv", totalCount: mawbs.length });
+
+    await processRowList(mawbs.map((mawb, idx) => ({ rowNumber: idx + 1, mawb })), job.id, 0, 4);
+
+    expect(await storage.getTrackJob(job.id)).toMatchObject({ status: "completed", processedCount: mawbs.length });
+
+    const outcomes = await storage.getTrackRowOutcomesByJob(job.id);
+    expect(outcomes.filter((outcome) => outcome.outcome === "success")).toHaveLength(5);
+    expect(outcomes.find((outcome) => outcome.rowNumber === 6)).toMatchObject({ outcome: "error", errorClass: "permanent" });
+
+    const results = await storage.getTrackResultsByJob(job.id);
+    const delivered = results.find((result) => result.mawb === "807-12345712");
+    expect(delivered).toMatchObject({ milestone: "DLV" });
+
+    const [document] = await storage.getTrackDocumentsByMawb("807-12345712");
+    expect(document).toMatchObject({ filename: "DO_807-12345712.pdf", contentType: "application/pdf" });
+    expect(delivered?.doUrl).toBe(`/api/shipments/807-12345712/documents/${document.id}`);
+  });
+});
+
+// A portal whose every postback fails with a server error, served under its own adapter so its
+// circuit breaker starts closed
+describe("tracking against a failing smartkargo portal", () => {
+  let server: Server;
+
+  beforeAll(async () => {
+    vi.stubEnv("CARRIER_RATE_PER_SEC", "100");
+    vi.stubEnv("CARRIER_RATE_BURST", "100");
+    vi.stubEnv("CARRIER_MAX_RETRIES", "0");
+    vi.stubEnv("CARRIER_BREAKER_THRESHOLD", "2");
+    vi.stubEnv("CARRIER_PROBE_INTERVAL_MS", "60000");
+
+    server = createSmartkargoSimulator({ failureRate: 1 }).listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+
+    registerCarrierAdapter(createSmartkargoAdapter({
+      id: "failing-portal",
+      name: "Failing portal",
+      baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      prefixes: ["843"],
+      timeZone: "Asia/Kuala_Lumpur",
+    }));
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    server?.close();
+  });
+
+  it("opens the carrier's breaker and pauses the job", async () => {
+    const mawbs = ["843-12345675", "843-12345686", "843-12345690", "843-12345701"];
+    const job = await storage.createTrackJob({ filename: "failing.csv", totalCount: mawbs.length });
+
+    const processing = processRowList(mawbs.map((mawb, idx) => ({ rowNumber: idx + 1, mawb })), job.id, 0, 1);
+
+    await vi.waitFor(async () => {
+      expect((await storage.getTrackJob(job.id))?.status).toBe("paused");
+    }, { timeout: 5000 });
+    const outcomes = await storage.getTrackRowOutcomesByJob(job.id);
+    expect(outcomes).toHaveLength(1);
+    expect(outcomes[0]).toMatchObject({ outcome: "error", errorClass: "transient" });
+
+    cancelTrackingJob(job.id);
+    await processing;
+  });
+});
+
+// A portal that fails until the test lets it recover, probed every 50ms once its breaker opens
+describe("tracking against a smartkargo portal that recovers", () => {
+  let server: Server;
+  const portal: SimulatorOptions = { failureRate: 1 };
+
+  beforeAll(async () => {
+    vi.stubEnv("CARRIER_RATE_PER_SEC", "100");
+    vi.stubEnv("CARRIER_RATE_BURST", "100");
+    vi.stubEnv("CARRIER_MAX_RETRIES", "0");
+    vi.stubEnv("CARRIER_BREAKER_THRESHOLD", "2");
+    vi.stubEnv("CARRIER_PROBE_INTERVAL_MS", "50");
+
+    server = createSmartkargoSimulator(portal).listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+
+    registerCarrierAdapter(createSmartkargoAdapter({
+      id: "recovering-portal",
+      name: "Recovering portal",
+      baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      prefixes: ["843"],
+      timeZone: "Asia/Kuala_Lumpur",
+    }));
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    server?.close();
+  });
+
+  it("pauses the job while the breaker is open and resumes it once a probe succeeds", async () => {
+    const mawbs = ["843-12345712", "843-12345723", "843-12345734", "843-12345745"];
+    const job = await storage.createTrackJob({ filename: "recovering.csv", totalCount: mawbs.length });
+
+    const processing = processRowList(mawbs.map((mawb, idx) => ({ rowNumber: idx + 1, mawb })), job.id, 0, 1);
+
+    await vi.waitFor(async () => {
+      expect((await storage.getTrackJob(job.id))?.status).toBe("paused");
+    }, { timeout: 5000 });
+
+    portal.failureRate = 0;
+    await processing;
+
+    expect(await storage.getTrackJob(job.id)).toMatchObject({ status: "completed", processedCount: mawbs.length });
+    // The row that failed before the breaker opened stays failed; the deferred row is tracked on resume
+    const outcomes = await storage.getTrackRowOutcomesByJob(job.id);
+    expect(outcomes.map((outcome) => [outcome.rowNumber, outcome.outcome]).sort()).toEqual([
+      [1, "error"],
+      [2, "success"],
+      [3, "success"],
+      [4, "success"],
+    ]);
+  });
+});
+
+describe("getIssueOrigins", () => {
+  it("takes each issue's origin from the input of the job it belongs to", async () => {
+    const upload = await storage.createTrackJob({ filename: "upload.xlsx", totalCount: 2 });
+    await storage.saveTrackJobInput(upload.id, [
+      { rowNumber: 1, mawb: "807-1234567", origin: { file: "upload.xlsx", sheet: "March", row: 2 } },
+      { rowNumber: 2, mawb: "807-12345686", origin: { file: "upload.xlsx", sheet: "March", row: 3 } },
+    ]);
+    await storage.createTrackRowOutcome({ jobId: upload.id, rowNumber: 1, rawInput: "807-1234567", outcome: "invalid" });
+    await storage.createTrackRowOutcome({ jobId: upload.id, rowNumber: 2, rawInput: "807-12345686", outcome: "error" });
+
+    // The retry only carries the row that failed, with the origin it had in the upload
+    const retry = await storage.createTrackJob({ filename: "upload.xlsx", totalCount: 1, parentJobId: upload.id });
+    await storage.saveTrackJobInput(retry.id, [
+      { rowNumber: 2, mawb: "807-12345686", origin: { file: "upload.xlsx", sheet: "March", row: 3 } },
+    ]);
+    await storage.createTrackRowOutcome({ jobId: retry.id, rowNumber: 2, rawInput: "807-12345686", outcome: "error" });
+
+    const { issues } = await getConsolidatedResults(retry.id);
+    const origins = await getIssueOrigins(issues);
+
+    expect(issues.map((issue) => [issue.jobId, issue.rowNumber])).toEqual([[upload.id, 1], [retry.id, 2]]);
+    expect(issues.map((issue) => origins.get(issue.id))).toEqual([
+      { file: "upload.xlsx", sheet: "March", row: 2 },
+      { file: "upload.xlsx", sheet: "March", row: 3 },
+    ]);
+  });
+});
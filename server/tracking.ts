@@ -1,29 +1,85 @@
-import * as cheerio from 'cheerio';
-import fetch from 'node-fetch';
-import { parse } from 'csv-parse/sync';
 import * as XLSX from 'xlsx';
 import { Readable } from 'stream';
-import { InsertTrackResult, TrackResult, TrackJobStatus } from '@shared/schema';
+import { InsertTrackResult, MilestoneCode, TrackDocument, TrackResult, TrackJob, TrackJobStatus, TrackRowOutcome, TrackingRow, TrackingRowOrigin, maxJobConcurrency } from '@shared/schema';
 import { storage } from './storage';
+import { JobQueue } from './queue';
+import { buildPreflightReport, normalizeMAWB } from './awb';
+import { recordCarrierPage } from './recordings';
+import { ResultCache, cacheTtlMs } from './resultCache';
+import { archiveDocuments, documentUrl } from './documents';
+import { parsePieces, parseWeight } from './measures';
+import { getStationTimeZone, parseLocalTimestamp } from './stations';
+import { getHostRateLimiter } from './rateLimit';
+import { getRetryPolicy, withRetry, RetryHooks } from './retry';
+import { CircuitBreaker, CircuitState } from './circuitBreaker';
+import { getCarrierAdapter, mapMilestone, CarrierAdapter, CarrierTrackResult, ParsedDocument, CarrierError, CarrierParseError, CarrierSessionError, UnsupportedCarrierError } from './carriers';
 import { google } from 'googleapis';
 import { WebSocketServer } from 'ws';
 
-// Map of active tracking jobs and their cancellation status
-const activeJobs = new Map<number, boolean>();
+// Runtime control state of a tracking job's workers
+interface JobControl {
+  cancelled: boolean;
+  paused: boolean;
+  // Shared promise parked workers wait on while paused, and the function settling it
+  gate?: Promise<void>;
+  release?: () => void;
+  // Carrier whose open circuit paused the job, if it was paused automatically
+  pausedBy?: string;
+  // Ids of the carriers the job has looked up so far
+  carriers: Set<string>;
+  // Lookups whose page the parser could not read, and whether the job has been warned about them
+  parseFailures: number;
+  parserWarned: boolean;
+  wss?: WebSocketServer;
+}
+
+// Map of active tracking jobs and their control state
+const activeJobs = new Map<number, JobControl>();
 
 // Add a job to the active jobs map
-export function startTrackingJob(jobId: number): void {
-  activeJobs.set(jobId, false);
+export function startTrackingJob(jobId: number, wss?: WebSocketServer): void {
+  activeJobs.set(jobId, { cancelled: false, paused: false, carriers: new Set(), parseFailures: 0, parserWarned: false, wss });
 }
 
-// Mark a job as cancelled
+// Mark a job as cancelled, waking its worker if it is paused
 export function cancelTrackingJob(jobId: number): void {
-  activeJobs.set(jobId, true);
+  const control = activeJobs.get(jobId);
+  if (!control) return;
+  
+  control.cancelled = true;
+  control.release?.();
+  jobQueue.wake(jobId);
+}
+
+// Ask a running job's workers to park at their next row boundary
+export function pauseTrackingJob(jobId: number): boolean {
+  const control = activeJobs.get(jobId);
+  if (!control || control.cancelled) return false;
+  
+  control.paused = true;
+  control.pausedBy = undefined;
+  return true;
+}
+
+// Let a paused job continue with its next unprocessed row
+export function resumeTrackingJob(jobId: number): boolean {
+  const control = activeJobs.get(jobId);
+  if (!control || control.cancelled) return false;
+  
+  control.paused = false;
+  control.pausedBy = undefined;
+  control.release?.();
+  return true;
+}
+
+// Check if a job has a worker running in this process
+export function isTrackingJobActive(jobId: number): boolean {
+  return activeJobs.has(jobId);
 }
 
 // Check if a job should be cancelled
 export function shouldCancelJob(jobId: number): boolean {
-  return activeJobs.get(jobId) === true;
+  return activeJobs.get(jobId)?.cancelled === true;
 }
 
 // Remove a job from the active jobs map
@@ -31,464 +87,752 @@ export function finishTrackingJob(jobId: number): void {
   activeJobs.delete(jobId);
 }
 
-// Parse MAWB - splitting prefix and awbno
+// Park a worker while its job is paused; the promise only settles on resume or cancel.
+// The first worker to park announces the pause and gives up the job's queue slot; on resume the
+// gate waits for a slot again and announces the resume once
+async function waitWhilePaused(jobId: number, nextRow: number, wss?: WebSocketServer): Promise<void> {
+  const control = activeJobs.get(jobId);
+  
+  while (control && control.paused && !control.cancelled) {
+    if (!control.gate) {
+      control.gate = new Promise<void>(resolve => {
+        control.release = resolve;
+      }).then(async () => {
+        if (!control.cancelled) {
+          const slot = jobQueue.unpark(jobId);
+          const position = jobQueue.position(jobId);
+          if (position) {
+            broadcastMessage(wss, jobId, {
+              type: 'log',
+              message: `Waiting for a free slot to resume (position ${position} in the queue).`,
+              level: 'info'
+            });
+          }
+          await slot;
+        }
+        
+        control.gate = undefined;
+        control.release = undefined;
+        
+        if (!control.cancelled) {
+          broadcastMessage(wss, jobId, { type: 'status', status: 'processing' });
+          broadcastMessage(wss, jobId, {
+            type: 'log',
+            message: 'Job resumed.',
+            level: 'info'
+          });
+        }
+      });
+      
+      jobQueue.park(jobId);
+      broadcastMessage(wss, jobId, { type: 'status', status: 'paused' });
+      broadcastMessage(wss, jobId, {
+        type: 'log',
+        message: `Job paused before row ${nextRow}.`,
+        level: 'info'
+      });
+    }
+    
+    await control.gate;
+  }
+}
+
+// Parse MAWB - splitting prefix and awbno; both are empty unless the MAWB normalizes to a valid AWB
 export function splitMAWB(mawb: string): { prefix: string, awbNo: string } {
-  mawb = mawb.trim().replace(/\s/g, '');
+  const awb = normalizeMAWB(mawb);
+  return awb.valid ? { prefix: awb.prefix, awbNo: awb.awbNo } : { prefix: '', awbNo: '' };
+}
+
+export interface TrackedAWB {
+  result: CarrierTrackResult;
+  // Lookups repeated after transient failures before the one that succeeded
+  retries: number;
+  // Delivery orders archived by the lookup, in listing order
+  documents: TrackDocument[];
+  // Served from the result cache, or by joining a lookup of the same AWB already in progress
+  cached: boolean;
+}
+
+// Reports a listed document the lookup could not archive
+export type DocumentErrorHook = (document: ParsedDocument, message: string) => void;
+
+// Recent results by MAWB, kept for as long as their milestone suggests they stay current
+const resultCache = new ResultCache<Omit<TrackedAWB, 'cached'>>(tracked => cacheTtlMs(tracked.result.milestone));
+
+// Track AWB by prefix and awbno, answering from the result cache when a fresh result is cached
+// and sharing a single carrier lookup between concurrent requests for the same AWB. The hooks
+// only hear from a lookup this request started
+export async function trackAWB(
+  prefix: string,
+  awbNo: string,
+  onRetry?: RetryHooks['onRetry'],
+  onDocumentError?: DocumentErrorHook
+): Promise<TrackedAWB> {
+  const { value, cached } = await resultCache.get(`${prefix}-${awbNo}`, () => scrapeAWB(prefix, awbNo, onRetry, onDocumentError));
+  return cached ? { ...value, retries: 0, cached } : { ...value, cached };
+}
+
+// Look up an AWB through the carrier adapter registered for its prefix, retrying transient
+// failures, and archive the documents it lists. Failures are thrown as a CarrierError carrying
+// the retry count
+async function scrapeAWB(
+  prefix: string,
+  awbNo: string,
+  onRetry?: RetryHooks['onRetry'],
+  onDocumentError?: DocumentErrorHook
+): Promise<Omit<TrackedAWB, 'cached'>> {
+  const adapter = getCarrierAdapter(prefix);
   
-  // Check if format is 123-45678901
-  const parts = mawb.split('-');
-  if (parts.length === 2) {
-    return { prefix: parts[0], awbNo: parts[1] };
+  if (!adapter) {
+    throw new UnsupportedCarrierError(prefix);
   }
   
-  // Try to match pattern of 3 digits followed by 8 digits
-  const regex = /(\d{3})[- ]?(\d{8})/;
-  const matches = mawb.match(regex);
+  const limiter = getHostRateLimiter(adapter.host);
+  const breaker = getCarrierBreaker(adapter);
   
-  if (matches && matches.length === 3) {
-    return { prefix: matches[1], awbNo: matches[2] };
+  try {
+    const { value, retries } = await withRetry(signal => adapter.track(prefix, awbNo, signal), getRetryPolicy(), {
+      beforeAttempt: async () => {
+        // Share the carrier host's request budget with every other lookup
+        await limiter.take();
+        
+        // Fail fast instead of hammering a carrier that is down
+        if (breaker.isOpen) {
+          throw new CarrierError('transient', `${adapter.name} is unavailable, waiting for it to recover`);
+        }
+      },
+      onRetry,
+      onFailure: error => {
+        // Waiting for one of our own sessions says nothing about the carrier's health
+        if (error instanceof CarrierSessionError) return;
+        if (error.errorClass === 'transient') {
+          breaker.recordFailure(() => probeCarrier(adapter, prefix, awbNo));
+        } else {
+          breaker.recordSuccess();
+        }
+      }
+    });
+    breaker.recordSuccess();
+    
+    // Archive the delivery orders while the carrier's links are still valid, so requests sharing
+    // this lookup get the archived copies rather than a link that is about to expire
+    const documents = await archiveDocuments(adapter, `${prefix}-${awbNo}`, value.documents ?? [], onDocumentError);
+    return { result: typeCarrierResult(adapter, value), retries, documents };
+  } catch (error) {
+    console.error(`Error tracking AWB ${prefix}-${awbNo} via ${adapter.id}:`, error);
+    throw error;
   }
+}
+
+// Milestones reached once the cargo is at its destination
+const ARRIVED_MILESTONES: MilestoneCode[] = ['ARR', 'RCF', 'NFD', 'AWD', 'DLV'];
+
+// Add the canonical milestone and the typed pieces, weight and timestamps to a carrier's raw result.
+// Times are read in the zone of the station they happened at, falling back to the carrier's zone
+function typeCarrierResult(adapter: CarrierAdapter, raw: CarrierTrackResult): CarrierTrackResult {
+  const zoneOf = (station: string | null | undefined) => getStationTimeZone(station) ?? adapter.timeZone;
+  const milestone = raw.milestone ?? mapMilestone(adapter.milestones, raw.status);
+  const events = raw.events?.map(event => ({
+    ...event,
+    occurredAt: event.occurredAt ?? parseLocalTimestamp(event.eventTime, zoneOf(event.station))
+  }));
+  
+  // The last activity happened at the latest event's station, or else at the origin until the cargo arrives
+  const lastStation = events?.[events.length - 1]?.station
+    ?? (milestone && ARRIVED_MILESTONES.includes(milestone) ? raw.dest : raw.origin);
+  const weight = parseWeight(raw.grossWt);
   
-  return { prefix: '', awbNo: '' };
+  return {
+    ...raw,
+    milestone,
+    events,
+    pieces: raw.pieces ?? parsePieces(raw.pcs),
+    weight: raw.weight ?? weight?.weight ?? null,
+    weightUnit: raw.weightUnit ?? weight?.weightUnit ?? null,
+    weightKg: raw.weightKg ?? weight?.weightKg ?? null,
+    lastActAt: raw.lastActAt ?? parseLocalTimestamp(raw.lastActDt, zoneOf(lastStation))
+  };
 }
 
-// Track AWB by prefix and awbno
-export async function trackAWB(prefix: string, awbNo: string): Promise<Partial<TrackResult>> {
-  try {
-    // First request to get VIEWSTATE
-    const initialResponse = await fetch('https://airasia.smartkargo.com/FrmAWBTracking.aspx', {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
+// Circuit breakers of the carriers looked up so far, keyed by adapter id
+const carrierBreakers = new Map<string, CircuitBreaker>();
+
+// Breaker that opens after CARRIER_BREAKER_THRESHOLD consecutive transient failures of a carrier
+// and probes it every CARRIER_PROBE_INTERVAL_MS until it answers again
+function getCarrierBreaker(adapter: CarrierAdapter): CircuitBreaker {
+  let breaker = carrierBreakers.get(adapter.id);
+  if (!breaker) {
+    breaker = new CircuitBreaker(
+      parseInt(process.env.CARRIER_BREAKER_THRESHOLD || '') || 5,
+      parseInt(process.env.CARRIER_PROBE_INTERVAL_MS || '') || 30000,
+      state => {
+        handleCarrierCircuitChange(adapter, state).catch(error => {
+          console.error(`Error handling ${adapter.id} circuit change:`, error);
+        });
       }
+    );
+    carrierBreakers.set(adapter.id, breaker);
+  }
+  return breaker;
+}
+
+// Repeat a failed lookup once; resolves as soon as the carrier gives any answer but a transient failure
+async function probeCarrier(adapter: CarrierAdapter, prefix: string, awbNo: string): Promise<void> {
+  try {
+    await withRetry(signal => adapter.track(prefix, awbNo, signal), { ...getRetryPolicy(), maxRetries: 0 }, {
+      beforeAttempt: () => getHostRateLimiter(adapter.host).take()
     });
-    
-    if (!initialResponse.ok) {
-      throw new Error(`Failed to access tracking site: ${initialResponse.status} ${initialResponse.statusText}`);
-    }
-    
-    const initialHtml = await initialResponse.text();
-    const $ = cheerio.load(initialHtml);
-    
-    // Extract VIEWSTATE and VIEWSTATEGENERATOR values
-    const viewState = $('#__VIEWSTATE').val();
-    const viewStateGenerator = $('#__VIEWSTATEGENERATOR').val();
-    
-    if (!viewState) {
-      throw new Error('Could not extract VIEWSTATE from initial request');
+  } catch (error) {
+    if (error instanceof CarrierError && error.errorClass === 'transient') {
+      throw error;
     }
+  }
+}
+
+// Pause every running job that uses a carrier whose circuit opened, and resume the ones it paused once it closes
+async function handleCarrierCircuitChange(adapter: CarrierAdapter, state: CircuitState): Promise<void> {
+  console.warn(`Circuit for carrier ${adapter.id} is ${state}`);
+  
+  for (const [jobId, control] of Array.from(activeJobs)) {
+    if (!control.carriers.has(adapter.id) || control.cancelled) continue;
     
-    // Build form data for tracking request
-    const formData = new URLSearchParams();
-    formData.append('__VIEWSTATE', viewState.toString());
-    formData.append('__VIEWSTATEGENERATOR', viewStateGenerator ? viewStateGenerator.toString() : '');
-    formData.append('txtPrefix', prefix);
-    formData.append('TextBoxAWBno', awbNo);
-    formData.append('ButtonGO', 'Track');
-    formData.append('ToolkitScriptManager1_HiddenField', '');
-    
-    // Make tracking request
-    const trackingResponse = await fetch('https://airasia.smartkargo.com/FrmAWBTracking.aspx', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Referer': 'https://airasia.smartkargo.com/FrmAWBTracking.aspx',
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-      },
-      body: formData.toString()
-    });
-    
-    if (!trackingResponse.ok) {
-      throw new Error(`Tracking request failed: ${trackingResponse.status} ${trackingResponse.statusText}`);
+    if (state === 'open') {
+      await pauseJobForCarrier(jobId, adapter);
+    } else if (control.paused && control.pausedBy === adapter.id) {
+      control.paused = false;
+      control.pausedBy = undefined;
+      await storage.updateTrackJobStatus(jobId, 'processing');
+      broadcastMessage(control.wss, jobId, {
+        type: 'carrier',
+        carrier: adapter.id,
+        state,
+        message: `${adapter.name} has recovered, resuming the job.`
+      });
+      control.release?.();
     }
-    
-    const trackingHtml = await trackingResponse.text();
-    return parseTrackingHTML(trackingHtml);
-    
-  } catch (error) {
-    console.error(`Error tracking AWB ${prefix}-${awbNo}:`, error);
-    throw error;
   }
 }
 
-// Parse tracking HTML results
-function parseTrackingHTML(html: string): Partial<TrackResult> {
-  const $ = cheerio.load(html);
+// Park a job until the carrier's circuit closes again, unless it is already paused
+async function pauseJobForCarrier(jobId: number, adapter: CarrierAdapter): Promise<void> {
+  const control = activeJobs.get(jobId);
+  if (!control || control.paused || control.cancelled) return;
   
-  const result: Partial<TrackResult> = {
-    status: $('#lblLatestActivity').text().trim(),
-    origin: $('#lblOrigin').text().trim(),
-    dest: $('#lblDestination').text().trim(),
-    pcs: $('#lblPcs').text().trim(),
-    grossWt: $('#lblGrossWt').text().trim(),
-    lastAct: $('#lblLastActivityDescription').text().trim(),
-    lastActDt: $('#lblLastActivityDate').text().trim(),
-    doUrl: ''
-  };
+  control.paused = true;
+  control.pausedBy = adapter.id;
+  await storage.updateTrackJobStatus(jobId, 'paused');
+  broadcastMessage(control.wss, jobId, {
+    type: 'carrier',
+    carrier: adapter.id,
+    state: 'open',
+    message: `${adapter.name} is not responding. The job is paused and resumes automatically once it recovers.`
+  });
+  broadcastMessage(control.wss, jobId, {
+    type: 'log',
+    message: `${adapter.name} keeps failing; pausing until it recovers.`,
+    level: 'warn'
+  });
+}
+
+// Count a page the parser could not read; once a job has seen several, warn that the carrier's
+// page layout has probably changed
+async function noteParseFailure(jobId: number, adapter: CarrierAdapter): Promise<void> {
+  const control = activeJobs.get(jobId);
+  if (!control) return;
+  
+  control.parseFailures++;
+  const threshold = parseInt(process.env.PARSER_ANOMALY_THRESHOLD || '') || 3;
+  if (control.parserWarned || control.parseFailures < threshold) return;
   
-  // Find Delivery Order PDF link
-  $('#gvDeliveryOrders a').each((_idx, element) => {
-    const href = $(element).attr('href');
-    if (href && href.endsWith('.pdf')) {
-      result.doUrl = href;
+  control.parserWarned = true;
+  const warning = `${adapter.name} returned ${control.parseFailures} pages the parser could not read. Its page layout may have changed; results for this job may be incomplete.`;
+  console.warn(`Job ${jobId}: ${warning}`);
+  await storage.addTrackJobWarning(jobId, warning);
+  broadcastMessage(control.wss, jobId, { type: 'warning', carrier: adapter.id, message: warning });
+  broadcastMessage(control.wss, jobId, { type: 'log', message: warning, level: 'warn' });
+}
+
+// Persist a job's parsed input rows and record its size
+export async function saveJobInput(jobId: number, rows: TrackingRow[]): Promise<void> {
+  await storage.saveTrackJobInput(jobId, rows);
+  await storage.updateTrackJobTotal(jobId, rows.length);
+}
+
+// Shared queue limiting how many jobs scrape carriers at the same time
+const jobQueue = new JobQueue(Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '1') || 1));
+
+// Queue a job whose input has been saved; it starts once a worker slot frees up
+export async function enqueueTrackingJob(job: TrackJob, wss?: WebSocketServer): Promise<void> {
+  await storage.updateTrackJobStatus(job.id, 'queued');
+  
+  jobQueue.enqueue(job.id, job.priority, async () => {
+    const rows = await storage.getTrackJobInput(job.id);
+    if (!rows) {
+      await storage.updateTrackJobStatus(job.id, 'failed');
+      throw new Error(`Input of job ${job.id} was not persisted`);
     }
+    await processRowList(rows, job.id, job.delay, job.concurrency, wss);
   });
-  
-  return result;
 }
 
-// Process CSV file
-export async function processCSVFile(fileBuffer: Buffer, jobId: number, delay: number = 100, wss?: WebSocketServer): Promise<number> {
+// Take a job out of the queue before it starts
+export function dequeueTrackingJob(jobId: number): boolean {
+  return jobQueue.remove(jobId);
+}
+
+// 1-based position of a waiting job in the queue
+export function getQueuePosition(jobId: number): number | undefined {
+  return jobQueue.position(jobId);
+}
+
+// Track a list of rows as an already registered job, failing the job on unexpected errors
+export async function processRowList(rows: TrackingRow[], jobId: number, delay: number = 100, concurrency: number = 1, wss?: WebSocketServer): Promise<number> {
   try {
     // Register job in the active jobs tracking
-    startTrackingJob(jobId);
-    
-    // Parse CSV
-    const csvText = fileBuffer.toString('utf-8');
-    const records = parse(csvText, { 
-      columns: true,
-      skip_empty_lines: true,
-      trim: true 
-    });
-    
-    let mawbIdx = -1;
-    const headers = Object.keys(records[0]);
+    startTrackingJob(jobId, wss);
     
-    // Find MAWB column
-    for (let i = 0; i < headers.length; i++) {
-      if (headers[i].toUpperCase().includes('MAWB')) {
-        mawbIdx = i;
-        break;
+    return await processTrackingRows(rows, jobId, delay, concurrency, wss);
+  } catch (error) {
+    console.error('Error processing rows:', error);
+    await storage.updateTrackJobStatus(jobId, 'failed');
+    finishTrackingJob(jobId);
+    throw error;
+  }
+}
+
+// Track every row of a job with a pool of `concurrency` workers, honouring pause and cancel
+// requests between rows. Rows may finish out of order; each outcome keeps its source row number.
+// Rows that already have an outcome were processed before an interruption and are skipped
+async function processTrackingRows(rows: TrackingRow[], jobId: number, delay: number, concurrency: number, wss?: WebSocketServer): Promise<number> {
+  const totalCount = rows.length;
+  await storage.updateTrackJobStatus(jobId, 'processing');
+  broadcastMessage(wss, jobId, { type: 'status', status: 'processing' });
+  
+  // Pre-flight checks; duplicate rows are recorded without a lookup
+  const preflight = buildPreflightReport(rows);
+  const duplicateOf = new Map(preflight.duplicates.map(row => [row.rowNumber, row.duplicateOf]));
+  broadcastMessage(wss, jobId, {
+    type: 'log',
+    message: `Pre-flight: ${preflight.valid} of ${preflight.total} rows to track, ${preflight.corrected.length} corrected, ${preflight.rejected.length} rejected, ${preflight.duplicates.length} duplicates.`,
+    level: preflight.rejected.length > 0 ? 'warn' : 'info'
+  });
+  
+  // Resume from the per-row checkpoint
+  const doneRows = new Set((await storage.getTrackRowOutcomesByJob(jobId)).map(outcome => outcome.rowNumber));
+  const pendingRows = rows.filter(row => !doneRows.has(row.rowNumber));
+  let processedCount = doneRows.size;
+  let nextIdx = 0;
+  let cancelled = false;
+  
+  // Record the row as processed and report progress
+  const checkpoint = async () => {
+    const current = ++processedCount;
+    await storage.updateTrackJobProgress(jobId, current);
+    broadcastMessage(wss, jobId, {
+      type: 'progress',
+      progress: {
+        current,
+        total: totalCount
       }
-    }
+    });
+  };
+  
+  // Check for cancellation, both in memory and from the database
+  const isCancelled = async () => {
+    if (cancelled || shouldCancelJob(jobId)) return true;
     
-    if (mawbIdx === -1) {
-      throw new Error('MAWB column not found in CSV');
+    const job = await storage.getTrackJob(jobId);
+    if (!job) {
+      throw new Error('Job not found');
     }
-    
-    // Update job with total count
-    const totalCount = records.length;
-    await storage.updateTrackJobStatus(jobId, 'processing');
-    
-    // Process each record
-    let processedCount = 0;
-    for (const record of records) {
-      // Check if the job has been cancelled
-      if (shouldCancelJob(jobId)) {
-        broadcastMessage(wss, jobId, {
-          type: 'log',
-          message: 'Job has been cancelled.',
-          level: 'info'
-        });
-        
-        finishTrackingJob(jobId);
-        return processedCount;
-      }
-      
-      // Get current job status from database
-      const job = await storage.getTrackJob(jobId);
-      if (!job) {
-        throw new Error('Job not found');
-      }
+    return job.status === 'cancelled';
+  };
+  
+  const worker = async () => {
+    while (nextIdx < pendingRows.length) {
+      // Park here while the job is paused
+      await waitWhilePaused(jobId, pendingRows[nextIdx].rowNumber, wss);
       
-      // If job was externally cancelled or paused, stop processing
-      if (job.status === 'cancelled') {
-        broadcastMessage(wss, jobId, {
-          type: 'log',
-          message: 'Job has been cancelled.',
-          level: 'info'
-        });
-        
-        finishTrackingJob(jobId);
-        return processedCount;
+      if (await isCancelled()) {
+        cancelled = true;
+        return;
       }
       
-      // Get current row number
-      processedCount++;
-      
-      // Get MAWB
-      const mawbKey = headers[mawbIdx];
-      const mawb = record[mawbKey];
+      // Claim the next unprocessed row only after the pause and cancel checks
+      const row = pendingRows[nextIdx++];
+      if (!row) return;
       
-      // Parse MAWB into prefix and awbno
-      const { prefix, awbNo } = splitMAWB(mawb);
+      const rowResult = await trackRow(row, jobId, wss, duplicateOf.get(row.rowNumber));
       
-      if (!prefix || !awbNo) {
-        broadcastMessage(wss, jobId, {
-          type: 'log',
-          message: `[Row ${processedCount}] Skipping invalid MAWB: ${mawb}`,
-          level: 'warn'
-        });
+      // Put the row back until its carrier recovers; the job is paused meanwhile
+      if (rowResult === 'deferred') {
+        pendingRows.push(row);
         continue;
       }
       
-      try {
-        // Send log message
-        broadcastMessage(wss, jobId, {
-          type: 'log',
-          message: `[Row ${processedCount}] Tracking MAWB: ${mawb} (prefix: ${prefix}, awbno: ${awbNo})`,
-          level: 'info'
-        });
-        
-        // Track AWB
-        const result = await trackAWB(prefix, awbNo);
-        
-        // Save result
-        const trackResult: InsertTrackResult = {
-          mawb,
-          prefix,
-          awbNo,
-          status: result.status || '',
-          origin: result.origin || '',
-          dest: result.dest || '',
-          pcs: result.pcs || '',
-          grossWt: result.grossWt || '',
-          lastAct: result.lastAct || '',
-          lastActDt: result.lastActDt || '',
-          doUrl: result.doUrl || ''
-        };
-        
-        await storage.createTrackResult(trackResult);
-        
-        // Send success message
-        broadcastMessage(wss, jobId, {
-          type: 'log',
-          message: `[Row ${processedCount}] Success: ${mawb}`,
-          level: 'success'
-        });
-        
-        // Send result to client
-        broadcastMessage(wss, jobId, {
-          type: 'result',
-          data: trackResult
-        });
-        
-      } catch (error) {
-        console.error(`Error processing row ${processedCount}:`, error);
-        broadcastMessage(wss, jobId, {
-          type: 'log',
-          message: `[Row ${processedCount}] Error tracking ${mawb}: ${error}`,
-          level: 'error'
-        });
-      }
-      
-      // Update job progress
-      await storage.updateTrackJobProgress(jobId, processedCount);
-      broadcastMessage(wss, jobId, {
-        type: 'progress',
-        progress: {
-          current: processedCount,
-          total: totalCount
-        }
-      });
+      await checkpoint();
       
       // Be polite to server - add delay
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
-    
-    // Mark job as completed if not cancelled
-    if (!shouldCancelJob(jobId)) {
-      await storage.updateTrackJobStatus(jobId, 'completed');
-      broadcastMessage(wss, jobId, {
-        type: 'complete',
-        message: `Tracking completed. Processed ${processedCount} records.`
-      });
+      if (rowResult === 'tracked') {
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
     }
+  };
+  
+  // Jobs saved before the limit was lowered may ask for more workers than are allowed now
+  const workerCount = Math.min(Math.max(1, concurrency), maxJobConcurrency);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  
+  if (cancelled) {
+    broadcastMessage(wss, jobId, {
+      type: 'log',
+      message: 'Job has been cancelled.',
+      level: 'info'
+    });
     
     finishTrackingJob(jobId);
     return processedCount;
-  } catch (error) {
-    console.error('Error processing CSV:', error);
-    await storage.updateTrackJobStatus(jobId, 'failed');
-    finishTrackingJob(jobId);
-    throw error;
   }
+  
+  // Mark job as completed if not cancelled
+  if (!shouldCancelJob(jobId)) {
+    const job = await storage.updateTrackJobStatus(jobId, 'completed');
+    broadcastMessage(wss, jobId, {
+      type: 'complete',
+      message: job.cachedCount > 0
+        ? `Tracking completed. Processed ${processedCount} records, ${job.cachedCount} from cache.`
+        : `Tracking completed. Processed ${processedCount} records.`
+    });
+  }
+  
+  finishTrackingJob(jobId);
+  return processedCount;
 }
 
-// Process Excel file
-export async function processExcelFile(fileBuffer: Buffer, jobId: number, delay: number = 100, wss?: WebSocketServer): Promise<number> {
+// What became of a row: looked up at the carrier, settled without a lookup, or
+// left without an outcome because its carrier's circuit is open
+type RowResult = 'tracked' | 'skipped' | 'deferred';
+
+// Track a single row and record its outcome
+async function trackRow({ rowNumber, mawb: input, source, origin }: TrackingRow, jobId: number, wss?: WebSocketServer, duplicateOf?: number): Promise<RowResult> {
+  // Normalize the MAWB and split it into prefix and awbno
+  const awb = normalizeMAWB(input);
+  
+  if (!awb.valid) {
+    await storage.createTrackRowOutcome({
+      jobId,
+      rowNumber,
+      rawInput: input,
+      outcome: 'invalid',
+      errorMessage: awb.reason
+    });
+    broadcastMessage(wss, jobId, {
+      type: 'log',
+      message: `[Row ${rowNumber}] Skipping invalid MAWB ${input}: ${awb.reason}`,
+      level: 'warn'
+    });
+    return 'skipped';
+  }
+  
+  const { mawb, prefix, awbNo } = awb;
+  
+  // Only the first row listing an AWB is looked up
+  if (duplicateOf !== undefined) {
+    await storage.createTrackRowOutcome({
+      jobId,
+      rowNumber,
+      rawInput: input,
+      outcome: 'duplicate',
+      errorMessage: `Duplicate of row ${duplicateOf}`
+    });
+    broadcastMessage(wss, jobId, {
+      type: 'log',
+      message: `[Row ${rowNumber}] Skipping ${mawb}, already listed on row ${duplicateOf}`,
+      level: 'info'
+    });
+    return 'skipped';
+  }
+  
+  const adapter = getCarrierAdapter(prefix);
+  if (adapter) {
+    activeJobs.get(jobId)?.carriers.add(adapter.id);
+  }
+  
   try {
-    // Register job in the active jobs tracking
-    startTrackingJob(jobId);
+    // Send log message
+    broadcastMessage(wss, jobId, {
+      type: 'log',
+      message: `[Row ${rowNumber}] Tracking MAWB: ${mawb} (prefix: ${prefix}, awbno: ${awbNo})`,
+      level: 'info'
+    });
     
-    // Parse Excel
-    const workbook = XLSX.read(fileBuffer);
-    const firstSheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[firstSheetName];
-    const records = XLSX.utils.sheet_to_json(worksheet);
+    // Track AWB, reporting each retry of a transient failure and each document it could not archive
+    const { result, retries, documents, cached } = await trackAWB(prefix, awbNo, (error, retry, delayMs) => {
+      broadcastMessage(wss, jobId, {
+        type: 'log',
+        message: `[Row ${rowNumber}] ${error.message}; retry ${retry} in ${Math.round(delayMs)}ms`,
+        level: 'warn'
+      });
+    }, (document, message) => {
+      broadcastMessage(wss, jobId, {
+        type: 'log',
+        message: `[Row ${rowNumber}] Could not archive ${document.filename}: ${message}`,
+        level: 'warn'
+      });
+    });
+    const latestDocument = documents[documents.length - 1];
     
-    // Find MAWB column
-    let mawbKey = '';
-    if (records.length > 0) {
-      const firstRow = records[0] as Record<string, any>;
-      for (const key of Object.keys(firstRow)) {
-        if (key.toUpperCase().includes('MAWB')) {
-          mawbKey = key;
-          break;
-        }
-      }
-    }
+    // Save result
+    const trackResult: InsertTrackResult = {
+      jobId,
+      mawb,
+      prefix,
+      awbNo,
+      status: result.status || '',
+      milestone: result.milestone ?? null,
+      origin: result.origin || '',
+      dest: result.dest || '',
+      pcs: result.pcs || '',
+      grossWt: result.grossWt || '',
+      lastAct: result.lastAct || '',
+      lastActDt: result.lastActDt || '',
+      pieces: result.pieces ?? null,
+      weight: result.weight ?? null,
+      weightUnit: result.weightUnit ?? null,
+      weightKg: result.weightKg ?? null,
+      lastActAt: result.lastActAt ?? null,
+      doUrl: latestDocument ? documentUrl(mawb, latestDocument.id) : result.doUrl || '',
+      sourceColumns: source ?? null,
+      sourceFile: origin?.file ?? null,
+      sourceSheet: origin?.sheet ?? null,
+      sourceRow: origin?.row ?? null
+    };
+    
+    // The outcome is the row's checkpoint; it is written with the result so resuming never tracks
+    // the row again
+    await storage.saveTrackedRow(trackResult, result.events ?? [], {
+      jobId,
+      rowNumber,
+      rawInput: input,
+      outcome: 'success',
+      retryCount: retries
+    });
     
-    if (!mawbKey) {
-      throw new Error('MAWB column not found in Excel');
+    if (cached) {
+      await storage.incrementTrackJobCachedCount(jobId);
     }
     
-    // Update job with total count
-    const totalCount = records.length;
-    await storage.updateTrackJobStatus(jobId, 'processing');
+    // Send success message
+    broadcastMessage(wss, jobId, {
+      type: 'log',
+      message: `[Row ${rowNumber}] Success: ${mawb}${cached ? ' (cached)' : ''}`,
+      level: 'success'
+    });
     
-    // Process each record
-    let processedCount = 0;
-    for (const record of records) {
-      // Check if the job has been cancelled
-      if (shouldCancelJob(jobId)) {
-        broadcastMessage(wss, jobId, {
-          type: 'log',
-          message: 'Job has been cancelled.',
-          level: 'info'
-        });
-        
-        finishTrackingJob(jobId);
-        return processedCount;
-      }
-      
-      // Get current job status from database
-      const job = await storage.getTrackJob(jobId);
-      if (!job) {
-        throw new Error('Job not found');
-      }
-      
-      // If job was externally cancelled or paused, stop processing
-      if (job.status === 'cancelled') {
-        broadcastMessage(wss, jobId, {
-          type: 'log',
-          message: 'Job has been cancelled.',
-          level: 'info'
-        });
-        
-        finishTrackingJob(jobId);
-        return processedCount;
-      }
-      
-      // Get current row number
-      processedCount++;
-      
-      // Get MAWB
-      const typedRecord = record as Record<string, any>;
-      const mawb = typedRecord[mawbKey]?.toString() || '';
-      
-      // Parse MAWB into prefix and awbno
-      const { prefix, awbNo } = splitMAWB(mawb);
-      
-      if (!prefix || !awbNo) {
-        broadcastMessage(wss, jobId, {
-          type: 'log',
-          message: `[Row ${processedCount}] Skipping invalid MAWB: ${mawb}`,
-          level: 'warn'
-        });
-        continue;
-      }
-      
-      try {
-        // Send log message
-        broadcastMessage(wss, jobId, {
-          type: 'log',
-          message: `[Row ${processedCount}] Tracking MAWB: ${mawb} (prefix: ${prefix}, awbno: ${awbNo})`,
-          level: 'info'
-        });
-        
-        // Track AWB
-        const result = await trackAWB(prefix, awbNo);
-        
-        // Save result
-        const trackResult: InsertTrackResult = {
-          mawb,
-          prefix,
-          awbNo,
-          status: result.status || '',
-          origin: result.origin || '',
-          dest: result.dest || '',
-          pcs: result.pcs || '',
-          grossWt: result.grossWt || '',
-          lastAct: result.lastAct || '',
-          lastActDt: result.lastActDt || '',
-          doUrl: result.doUrl || ''
-        };
-        
-        await storage.createTrackResult(trackResult);
-        
-        // Send success message
-        broadcastMessage(wss, jobId, {
-          type: 'log',
-          message: `[Row ${processedCount}] Success: ${mawb}`,
-          level: 'success'
-        });
-        
-        // Send result to client
-        broadcastMessage(wss, jobId, {
-          type: 'result',
-          data: trackResult
-        });
-        
-      } catch (error) {
-        console.error(`Error processing row ${processedCount}:`, error);
-        broadcastMessage(wss, jobId, {
-          type: 'log',
-          message: `[Row ${processedCount}] Error tracking ${mawb}: ${error}`,
-          level: 'error'
-        });
-      }
-      
-      // Update job progress
-      await storage.updateTrackJobProgress(jobId, processedCount);
+    // Send result to client
+    broadcastMessage(wss, jobId, {
+      type: 'result',
+      data: trackResult
+    });
+    
+  } catch (error) {
+    if (error instanceof UnsupportedCarrierError) {
+      await storage.createTrackRowOutcome({
+        jobId,
+        rowNumber,
+        rawInput: input,
+        outcome: 'unsupported',
+        errorMessage: error.message
+      });
       broadcastMessage(wss, jobId, {
-        type: 'progress',
-        progress: {
-          current: processedCount,
-          total: totalCount
-        }
+        type: 'log',
+        message: `[Row ${rowNumber}] Unsupported carrier for MAWB ${mawb} (prefix: ${prefix})`,
+        level: 'warn'
       });
-      
-      // Be polite to server - add delay
-      await new Promise(resolve => setTimeout(resolve, delay));
+      return 'skipped';
     }
     
-    // Mark job as completed if not cancelled
-    if (!shouldCancelJob(jobId)) {
-      await storage.updateTrackJobStatus(jobId, 'completed');
+    const carrierError = error instanceof CarrierError ? error : undefined;
+    
+    // A carrier outage is not the row's fault; leave it to be tracked after the carrier recovers
+    if (adapter && carrierError?.errorClass === 'transient' && getCarrierBreaker(adapter).isOpen) {
+      await pauseJobForCarrier(jobId, adapter);
       broadcastMessage(wss, jobId, {
-        type: 'complete',
-        message: `Tracking completed. Processed ${processedCount} records.`
+        type: 'log',
+        message: `[Row ${rowNumber}] Deferred ${mawb} until ${adapter.name} recovers`,
+        level: 'warn'
       });
+      return 'deferred';
     }
     
-    finishTrackingJob(jobId);
-    return processedCount;
-  } catch (error) {
-    console.error('Error processing Excel:', error);
-    await storage.updateTrackJobStatus(jobId, 'failed');
-    finishTrackingJob(jobId);
-    throw error;
+    // Keep the unreadable page for the parser fixtures and watch for a pattern across the job
+    if (adapter && error instanceof CarrierParseError) {
+      await recordCarrierPage(adapter.id, mawb, error.html).catch(recordError =>
+        console.error(`Failed to record page for ${mawb}:`, recordError)
+      );
+      await noteParseFailure(jobId, adapter);
+    }
+    
+    // A parse error carries the whole page; log only its message
+    console.error(`Error processing row ${rowNumber}:`, error instanceof CarrierParseError ? error.message : error);
+    await storage.createTrackRowOutcome({
+      jobId,
+      rowNumber,
+      rawInput: input,
+      outcome: 'error',
+      errorMessage: error instanceof Error ? error.message : String(error),
+      errorClass: carrierError?.errorClass,
+      retryCount: carrierError?.retries ?? 0
+    });
+    broadcastMessage(wss, jobId, {
+      type: 'log',
+      message: carrierError
+        ? `[Row ${rowNumber}] Error tracking ${mawb} (${carrierError.errorClass}, ${carrierError.retries} retries): ${carrierError.message}`
+        : `[Row ${rowNumber}] Error tracking ${mawb}: ${error}`,
+      level: 'error'
+    });
+  }
+  
+  return 'tracked';
+}
+
+// Re-queue jobs that were running or waiting when the server stopped; running ones continue from their last checkpoint
+export async function recoverInterruptedJobs(wss?: WebSocketServer): Promise<void> {
+  const jobs = await storage.getTrackJobs();
+  
+  // Jobs that were already running go back to the front of their priority
+  const interrupted = [
+    ...jobs.filter(job => job.status === 'processing'),
+    ...jobs.filter(job => job.status === 'queued')
+  ];
+  
+  for (const job of interrupted) {
+    if (isTrackingJobActive(job.id)) continue;
+    
+    if (!await storage.getTrackJobInput(job.id)) {
+      console.error(`Cannot recover job ${job.id}: its input was not persisted`);
+      await storage.updateTrackJobStatus(job.id, 'failed');
+      continue;
+    }
+    
+    const message = job.status === 'processing'
+      ? `Job recovered after a server restart; resuming after ${job.processedCount} of ${job.totalCount} rows.`
+      : 'Job re-queued after a server restart.';
+    console.log(`[job ${job.id}] ${message}`);
+    broadcastMessage(wss, job.id, {
+      type: 'log',
+      message,
+      level: 'warn'
+    });
+    
+    await enqueueTrackingJob(job, wss);
   }
 }
 
-// Generate Excel file from results
-export async function generateExcelFile(results: TrackResult[]): Promise<Buffer> {
+// Ids of a job's whole retry family: the original upload and every retry job descending from it
+export async function getJobFamilyIds(jobId: number): Promise<number[]> {
+  const jobs = await storage.getTrackJobs();
+  const jobsById = new Map(jobs.map(job => [job.id, job]));
+  
+  // Walk up to the original upload
+  let root = jobsById.get(jobId);
+  while (root?.parentJobId && jobsById.has(root.parentJobId)) {
+    root = jobsById.get(root.parentJobId);
+  }
+  if (!root) return [];
+  
+  // Collect every descendant retry
+  const ids = [root.id];
+  for (let i = 0; i < ids.length; i++) {
+    for (const job of jobs) {
+      if (job.parentJobId === ids[i]) ids.push(job.id);
+    }
+  }
+  return ids.sort((a, b) => a - b);
+}
+
+// Merge a retry family into one result set: all results, plus the latest outcome of rows that never succeeded
+export async function getConsolidatedResults(jobId: number): Promise<{ results: TrackResult[], issues: TrackRowOutcome[] }> {
+  const results: TrackResult[] = [];
+  const latestOutcomes = new Map<number, TrackRowOutcome>();
+  
+  // Job ids ascend, so outcomes of later retries replace earlier ones
+  for (const id of await getJobFamilyIds(jobId)) {
+    results.push(...await storage.getTrackResultsByJob(id));
+    for (const outcome of await storage.getTrackRowOutcomesByJob(id)) {
+      latestOutcomes.set(outcome.rowNumber, outcome);
+    }
+  }
+  
+  const issues = Array.from(latestOutcomes.values())
+    .filter(outcome => outcome.outcome !== 'success')
+    .sort((a, b) => a.rowNumber - b.rowNumber);
+  return { results, issues };
+}
+
+// Where each issue's row was read from, keyed by outcome id. Each is looked up in the input of the
+// job the outcome belongs to, as a consolidated export lists issues of several jobs
+export async function getIssueOrigins(issues: TrackRowOutcome[]): Promise<Map<number, TrackingRowOrigin>> {
+  const origins = new Map<number, TrackingRowOrigin>();
+  
+  for (const jobId of Array.from(new Set(issues.map(issue => issue.jobId)))) {
+    const input = await storage.getTrackJobInput(jobId);
+    const rowOrigins = new Map(input?.flatMap(row => row.origin ? [[row.rowNumber, row.origin] as const] : []));
+    for (const issue of issues) {
+      const origin = issue.jobId === jobId ? rowOrigins.get(issue.rowNumber) : undefined;
+      if (origin) origins.set(issue.id, origin);
+    }
+  }
+  return origins;
+}
+
+// Excel stores dates as days since 1899-12-30 without a zone; write the UTC wall-clock time
+function excelDateCell(date: Date): XLSX.CellObject {
+  return { t: 'n', v: date.getTime() / 86400000 + 25569, z: 'yyyy-mm-dd hh:mm' };
+}
+
+// Clickable cell for a URL
+function excelLinkCell(url: string): XLSX.CellObject | string {
+  return url ? { t: 's', v: url, l: { Target: url } } : '';
+}
+
+// Archived documents are stored with a link relative to this server; exports need it absolute
+function absoluteDocumentUrl(doUrl: string | null, baseUrl: string): string {
+  if (!doUrl) return '';
+  return doUrl.startsWith('/') ? `${baseUrl}${doUrl}` : doUrl;
+}
+
+// Generate Excel file from results, with rows that did not track successfully on an "Issues" sheet.
+// DO links point at our archived copy, resolved against baseUrl. The given input columns are copied
+// from each result's source row ahead of the tracking columns, giving an enriched copy of the upload.
+// Each row ends with the file, sheet and row it was read from; issues take theirs from `origins`,
+// keyed by outcome id (see getIssueOrigins)
+export async function generateExcelFile(results: TrackResult[], issues: TrackRowOutcome[] = [], baseUrl = '', inputColumns: string[] = [], origins = new Map<number, TrackingRowOrigin>()): Promise<Buffer> {
   // Create workbook & sheet
   const workbook = XLSX.utils.book_new();
-  const headers = ['MAWB', 'Prefix', 'AWBNo', 'Status', 'Origin', 'Dest', 'Pcs', 'GrossWt', 'LastAct', 'DOUrl'];
+  const headers = [...inputColumns, 'MAWB', 'Prefix', 'AWBNo', 'Milestone', 'Status', 'Origin', 'Dest', 'Pcs', 'GrossWt', 'WtUnit', 'WeightKg', 'LastAct', 'LastActDt', 'LastActAt (UTC)', 'DOUrl', 'Source File', 'Source Sheet', 'Source Row'];
   
-  // Convert results to rows
-  const rows = results.map(r => [
+  // Convert results to rows; parsed values become numeric and date cells, unparsed ones keep their raw text
+  const rows: (string | number | XLSX.CellObject | null)[][] = results.map(r => [
+    ...inputColumns.map(column => r.sourceColumns?.[column] ?? ''),
     r.mawb,
     r.prefix,
     r.awbNo,
+    r.milestone || '',
     r.status,
     r.origin,
     r.dest,
-    r.pcs,
-    r.grossWt,
+    r.pieces ?? r.pcs,
+    r.weight ?? r.grossWt,
+    r.weightUnit || '',
+    r.weightKg,
     r.lastAct,
-    r.doUrl
+    r.lastActDt,
+    r.lastActAt ? excelDateCell(r.lastActAt) : null,
+    excelLinkCell(absoluteDocumentUrl(r.doUrl, baseUrl)),
+    r.sourceFile || '',
+    r.sourceSheet || '',
+    r.sourceRow
   ]);
   
   // Add headers as first row
@@ -498,13 +842,30 @@ export async function generateExcelFile(results: TrackResult[]): Promise<Buffer>
   const worksheet = XLSX.utils.aoa_to_sheet(rows);
   XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1');
   
+  // Add issues sheet so bad rows can be fixed in the source file
+  if (issues.length > 0) {
+    const issueRows: (string | number)[][] = issues.map(issue => [
+      issue.rowNumber,
+      issue.rawInput,
+      issue.outcome,
+      issue.errorMessage || '',
+      issue.errorClass || '',
+      issue.retryCount,
+      origins.get(issue.id)?.file ?? '',
+      origins.get(issue.id)?.sheet ?? '',
+      origins.get(issue.id)?.row ?? ''
+    ]);
+    issueRows.unshift(['Row', 'Input', 'Outcome', 'Error', 'Error Class', 'Retries', 'Source File', 'Source Sheet', 'Source Row']);
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(issueRows), 'Issues');
+  }
+  
   // Generate buffer
   const excelBuffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
   return excelBuffer;
 }
 
 // Update Google Sheets
-export async function updateGoogleSheet(spreadsheetId: string, results: TrackResult[]): Promise<string> {
+export async function updateGoogleSheet(spreadsheetId: string, results: TrackResult[], baseUrl = ''): Promise<string> {
   try {
     // Setup auth with service account credentials
     const auth = new google.auth.GoogleAuth({
@@ -515,32 +876,33 @@ export async function updateGoogleSheet(spreadsheetId: string, results: TrackRes
     const sheets = google.sheets({ version: 'v4', auth });
     
     // Prepare header row
-    const headerValues = [['MAWB', 'Prefix', 'AWBNo', 'Status', 'Origin', 'Dest', 'Pcs', 'GrossWt', 'LastAct', 'DOUrl']];
+    const headerValues = [['MAWB', 'Prefix', 'AWBNo', 'Milestone', 'Status', 'Origin', 'Dest', 'Pcs', 'GrossWt', 'LastAct', 'DOUrl']];
     
     // Prepare data rows
     const dataValues = results.map(r => [
       r.mawb,
       r.prefix,
       r.awbNo,
+      r.milestone || '',
       r.status,
       r.origin,
       r.dest,
       r.pcs,
       r.grossWt,
       r.lastAct,
-      r.doUrl
+      absoluteDocumentUrl(r.doUrl, baseUrl)
     ]);
     
     // Clear existing content
     await sheets.spreadsheets.values.clear({
       spreadsheetId,
-      range: 'Sheet1!A1:J1000', // Adjust range as needed
+      range: 'Sheet1!A1:K1000', // Adjust range as needed
     });
     
     // Write header
     await sheets.spreadsheets.values.update({
       spreadsheetId,
-      range: 'Sheet1!A1:J1',
+      range: 'Sheet1!A1:K1',
       valueInputOption: 'RAW',
       requestBody: {
         values: headerValues,
@@ -551,7 +913,7 @@ export async function updateGoogleSheet(spreadsheetId: string, results: TrackRes
     if (dataValues.length > 0) {
       await sheets.spreadsheets.values.update({
         spreadsheetId,
-        range: `Sheet1!A2:J${dataValues.length + 1}`,
+        range: `Sheet1!A2:K${dataValues.length + 1}`,
         valueInputOption: 'RAW',
         requestBody: {
           values: dataValues,
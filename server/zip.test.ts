@@ -0,0 +1,144 @@
+import zlib from "zlib";
+import { describe, expect, it } from "vitest";
+import { isZip, readZip } from "./zip";
+
+interface TestEntry {
+  name: string;
+  data: Buffer;
+  method?: "stored" | "deflated";
+  // Uncompressed size written to the headers, when it should differ from the data's
+  size?: number;
+}
+
+// Build an archive the way archivers lay it out: local headers with the data, then the central
+// directory and its end record. CRCs are left at 0, as readZip does not check them
+function buildZip(entries: TestEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf-8");
+    const deflated = entry.method === "deflated";
+    const data = deflated ? zlib.deflateRawSync(entry.data) : entry.data;
+    const size = entry.size ?? entry.data.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x800, 6);
+    local.writeUInt16LE(deflated ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x800, 8);
+    central.writeUInt16LE(deflated ? 8 : 0, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const csv = Buffer.from("MAWB\n807-12345675\n807-12345686\n", "utf-8");
+
+describe("readZip", () => {
+  it("reads stored and deflated entries, in subfolders too", () => {
+    const archive = buildZip([
+      { name: "stored.csv", data: csv },
+      { name: "march/deflated.csv", data: csv, method: "deflated" },
+    ]);
+
+    expect(isZip(archive)).toBe(true);
+    expect(readZip(archive)).toEqual([
+      { name: "stored.csv", data: csv },
+      { name: "march/deflated.csv", data: csv },
+    ]);
+  });
+
+  it("leaves out folders, macOS resource forks and hidden files", () => {
+    const archive = buildZip([
+      { name: "march/", data: Buffer.alloc(0) },
+      { name: "__MACOSX/march/._awbs.csv", data: Buffer.from("fork") },
+      { name: "march/.DS_Store", data: Buffer.from("finder") },
+      { name: "march/awbs.csv", data: csv },
+    ]);
+
+    expect(readZip(archive).map((entry) => entry.name)).toEqual(["march/awbs.csv"]);
+  });
+
+  it("rejects a file that is not a ZIP archive", () => {
+    expect(isZip(csv)).toBe(false);
+    expect(() => readZip(csv)).toThrow("Not a ZIP archive");
+    expect(() => readZip(Buffer.alloc(4))).toThrow("Not a ZIP archive");
+  });
+
+  it("rejects an archive cut off before its end record", () => {
+    const archive = buildZip([{ name: "awbs.csv", data: csv }]);
+    expect(() => readZip(archive.subarray(0, archive.length - 10))).toThrow("Not a ZIP archive");
+  });
+
+  it("rejects an archive whose entries point past its data", () => {
+    const archive = buildZip([{ name: "awbs.csv", data: csv, method: "deflated" }]);
+    const directoryOffset = archive.readUInt32LE(archive.length - 6);
+    // Claim more compressed data than the archive holds
+    archive.writeUInt32LE(archive.length, directoryOffset + 20);
+
+    expect(() => readZip(archive)).toThrow("ZIP archive is damaged");
+  });
+
+  it("rejects a central directory that does not point at an entry", () => {
+    const archive = buildZip([{ name: "awbs.csv", data: csv }]);
+    archive.writeUInt32LE(archive.readUInt32LE(archive.length - 6) + 1, archive.length - 6);
+
+    expect(() => readZip(archive)).toThrow("ZIP archive is damaged");
+  });
+
+  it("rejects corrupt compressed data", () => {
+    const archive = buildZip([{ name: "awbs.csv", data: csv, method: "deflated" }]);
+    // Overwrite the deflate stream that follows the 30-byte local header and the name
+    archive.fill(0xff, 30 + "awbs.csv".length, 30 + "awbs.csv".length + 8);
+
+    expect(() => readZip(archive)).toThrow('"awbs.csv" is damaged');
+  });
+
+  it("rejects an entry that inflates to more than its declared size", () => {
+    const archive = buildZip([{ name: "awbs.csv", data: csv, method: "deflated", size: 4 }]);
+
+    expect(() => readZip(archive)).toThrow('"awbs.csv" is damaged');
+  });
+
+  it("rejects ZIP64 archives", () => {
+    const archive = buildZip([{ name: "awbs.csv", data: csv }]);
+    archive.writeUInt32LE(0xffffffff, archive.length - 6);
+
+    expect(() => readZip(archive)).toThrow("ZIP64 archives are not supported");
+  });
+
+  it("refuses archives that unpack to more than 200 MB", () => {
+    const archive = buildZip([
+      { name: "first.csv", data: csv, size: 150 * 1024 * 1024 },
+      { name: "second.csv", data: csv, size: 60 * 1024 * 1024 },
+    ]);
+
+    expect(() => readZip(archive)).toThrow("ZIP archive unpacks to more than 200 MB");
+  });
+});
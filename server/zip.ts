@@ -0,0 +1,108 @@
+import zlib from "zlib";
+
+export interface ZipEntry {
+  // Path of the file inside the archive
+  name: string;
+  data: Buffer;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Compression methods spreadsheet tools and OS archivers write
+const STORED = 0;
+const DEFLATED = 8;
+
+// An upload is never expected to unpack to more than this
+const MAX_UNPACKED_BYTES = 200 * 1024 * 1024;
+
+// ZIP64 archives store this in the classic fields and the real value in an extra field
+const ZIP64_MARKER = 0xffffffff;
+
+export function isZip(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER;
+}
+
+// Read the files of a ZIP archive from its central directory. Folders, macOS resource forks and
+// hidden files are left out; ZIP64 and encrypted archives are not supported
+export function readZip(buffer: Buffer): ZipEntry[] {
+  // The end of central directory record closes the archive, followed by a comment of up to 64 KB
+  let end = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error("Not a ZIP archive");
+  }
+
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  if (entryCount === 0xffff || offset === ZIP64_MARKER) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+  let unpacked = 0;
+  const entries: ZipEntry[] = [];
+
+  for (let idx = 0; idx < entryCount; idx++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("ZIP archive is damaged");
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString(flags & 0x800 ? "utf-8" : "latin1", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const baseName = name.split("/").pop() ?? "";
+    if (name.endsWith("/") || name.startsWith("__MACOSX/") || baseName.startsWith(".")) continue;
+
+    if (flags & 0x1) {
+      throw new Error(`"${name}" is encrypted`);
+    }
+    if (compressedSize === ZIP64_MARKER || size === ZIP64_MARKER || localOffset === ZIP64_MARKER) {
+      throw new Error("ZIP64 archives are not supported");
+    }
+    unpacked += size;
+    if (unpacked > MAX_UNPACKED_BYTES) {
+      throw new Error("ZIP archive unpacks to more than 200 MB");
+    }
+
+    // The local header repeats the name and has its own extra field before the data
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error("ZIP archive is damaged");
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    if (dataStart + compressedSize > buffer.length) {
+      throw new Error("ZIP archive is damaged");
+    }
+    const raw = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === STORED) {
+      entries.push({ name, data: Buffer.from(raw) });
+    } else if (method === DEFLATED) {
+      entries.push({ name, data: inflate(name, raw, size) });
+    } else {
+      throw new Error(`"${name}" uses an unsupported compression method`);
+    }
+  }
+
+  return entries;
+}
+
+// Inflate an entry, refusing data that unpacks to more than the size its header declares
+function inflate(name: string, raw: Buffer, size: number): Buffer {
+  try {
+    return zlib.inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+  } catch {
+    throw new Error(`"${name}" is damaged`);
+  }
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision, index, uniqueIndex, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -16,24 +16,56 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Canonical Cargo-IMP style milestones carrier statuses are mapped to, in shipment order.
+// EXC covers any exception (offload, hold, damage, discrepancy) rather than a single message
+export const milestoneCode = z.enum(["BKD", "RCS", "MAN", "DEP", "ARR", "RCF", "NFD", "AWD", "DLV", "EXC"]);
+export type MilestoneCode = z.infer<typeof milestoneCode>;
+
+export const weightUnit = z.enum(["kg", "lb"]);
+export type WeightUnit = z.infer<typeof weightUnit>;
+
 // AWB Tracking Schema
 export const trackResults = pgTable("track_results", {
   id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => trackJobs.id, { onDelete: "cascade" }),
   mawb: text("mawb").notNull(),
   prefix: text("prefix").notNull(),
   awbNo: text("awb_no").notNull(),
+  // Carrier status text as scraped, and the canonical milestone it maps to
   status: text("status"),
+  milestone: text("milestone").$type<MilestoneCode>(),
   origin: text("origin"),
   dest: text("dest"),
+  // Raw label text, kept for audit next to the typed values parsed from it
   pcs: text("pcs"),
   grossWt: text("gross_wt"),
   lastAct: text("last_act"),
   lastActDt: text("last_act_dt"),
+  pieces: integer("pieces"),
+  weight: doublePrecision("weight"),
+  weightUnit: text("weight_unit").$type<WeightUnit>(),
+  weightKg: doublePrecision("weight_kg"),
+  // lastActDt read as the local time of the station where the activity happened
+  lastActAt: timestamp("last_act_at", { withTimezone: true }),
+  // Our stable link to the archived delivery order, or the carrier link if it could not be archived
   doUrl: text("do_url"),
+  // Cells of the input row the AWB came from, keyed by column header
+  sourceColumns: jsonb("source_columns").$type<Record<string, string>>(),
+  // File, sheet and 1-based sheet row the AWB was read from
+  sourceFile: text("source_file"),
+  sourceSheet: text("source_sheet"),
+  sourceRow: integer("source_row"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("track_results_job_id_idx").on(table.jobId, table.id),
+  index("track_results_awb_idx").on(table.prefix, table.awbNo),
+]);
 
-export const insertTrackResultSchema = createInsertSchema(trackResults).omit({
+export const insertTrackResultSchema = createInsertSchema(trackResults, {
+  milestone: milestoneCode.nullish(),
+  weightUnit: weightUnit.nullish(),
+  sourceColumns: z.record(z.string()).nullish(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -41,21 +73,129 @@ export const insertTrackResultSchema = createInsertSchema(trackResults).omit({
 export type InsertTrackResult = z.infer<typeof insertTrackResultSchema>;
 export type TrackResult = typeof trackResults.$inferSelect;
 
+// Milestone history of a tracked AWB, one row per event listed on the carrier page
+export const trackEvents = pgTable("track_events", {
+  id: serial("id").primaryKey(),
+  resultId: integer("result_id").notNull().references(() => trackResults.id, { onDelete: "cascade" }),
+  // Position of the event in the carrier's history, oldest first
+  seq: integer("seq").notNull(),
+  code: text("code"),
+  description: text("description"),
+  station: text("station"),
+  flight: text("flight"),
+  pieces: text("pieces"),
+  weight: text("weight"),
+  // Event time as printed by the carrier, and read as the station's local time
+  eventTime: text("event_time"),
+  occurredAt: timestamp("occurred_at", { withTimezone: true }),
+}, (table) => [
+  index("track_events_result_id_idx").on(table.resultId, table.seq),
+]);
+
+export const insertTrackEventSchema = createInsertSchema(trackEvents).omit({
+  id: true,
+});
+
+export type InsertTrackEvent = z.infer<typeof insertTrackEventSchema>;
+export type TrackEvent = typeof trackEvents.$inferSelect;
+
+// Delivery order PDFs downloaded from the carrier, so they outlive its short-lived links.
+// A file is stored once per AWB however often the AWB is tracked
+export const trackDocuments = pgTable("track_documents", {
+  id: serial("id").primaryKey(),
+  mawb: text("mawb").notNull(),
+  filename: text("filename").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  // Hex SHA-256 of the content, checked again whenever the file is served
+  checksum: text("checksum").notNull(),
+  // Key of the content in the blob store
+  storageKey: text("storage_key").notNull(),
+  // Carrier link the file was downloaded from
+  sourceUrl: text("source_url").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("track_documents_mawb_checksum_idx").on(table.mawb, table.checksum),
+]);
+
+export const insertTrackDocumentSchema = createInsertSchema(trackDocuments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertTrackDocument = z.infer<typeof insertTrackDocumentSchema>;
+export type TrackDocument = typeof trackDocuments.$inferSelect;
+
+// Server-side filtering, sorting and cursor pagination of a job's results
+export const trackResultSortFields = ["id", "mawb", "prefix", "status", "milestone", "origin", "dest", "pieces", "weightKg", "lastActAt"] as const;
+export type TrackResultSortField = typeof trackResultSortFields[number];
+
+export const trackResultQuerySchema = z.object({
+  status: z.string().trim().min(1).optional(),
+  milestone: milestoneCode.optional(),
+  origin: z.string().trim().min(1).optional(),
+  dest: z.string().trim().min(1).optional(),
+  prefix: z.string().trim().min(1).optional(),
+  // Last activity window: from is inclusive, to is exclusive
+  lastActFrom: z.coerce.date().optional(),
+  lastActTo: z.coerce.date().optional(),
+  sort: z.enum(trackResultSortFields).default("id"),
+  order: z.enum(["asc", "desc"]).default("asc"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+export type TrackResultQuery = z.infer<typeof trackResultQuerySchema>;
+
+export type TrackResultPage = {
+  items: TrackResult[];
+  // Opaque cursor for the following page, null on the last page
+  nextCursor: string | null;
+  // Number of results matching the filters
+  total: number;
+  // Sums over every result matching the filters
+  totals: { pieces: number; weightKg: number };
+};
+
+// Most workers a job may run in parallel; carriers throttle or block more sessions than this
+export const maxJobConcurrency = 8;
+
 // Track job status
 export const trackJobs = pgTable("track_jobs", {
   id: serial("id").primaryKey(),
   filename: text("filename").notNull(),
   totalCount: integer("total_count").notNull(),
   processedCount: integer("processed_count").notNull().default(0),
+  // Rows answered from the result cache instead of the carrier
+  cachedCount: integer("cached_count").notNull().default(0),
   status: text("status").notNull().default("pending"),
+  // Politeness delay between carrier requests, in ms
+  delay: integer("delay").notNull().default(100),
+  // Number of rows tracked in parallel, each worker with its own carrier session
+  concurrency: integer("concurrency").notNull().default(1),
+  priority: text("priority").$type<JobPriority>().notNull().default("normal"),
+  // Set on jobs created by retrying the failed rows of another job
+  parentJobId: integer("parent_job_id").references((): AnyPgColumn => trackJobs.id),
+  // Job-level warnings raised while processing, e.g. repeated parser anomalies
+  warnings: jsonb("warnings").$type<string[]>().notNull().default([]),
+  // Headers of the uploaded sheet, in file order; their cells are kept with each result
+  inputColumns: jsonb("input_columns").$type<string[]>().notNull().default([]),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const insertTrackJobSchema = createInsertSchema(trackJobs).omit({
+export const jobPriority = z.enum(["normal", "urgent"]);
+export type JobPriority = z.infer<typeof jobPriority>;
+
+export const insertTrackJobSchema = createInsertSchema(trackJobs, {
+  priority: jobPriority.optional(),
+  inputColumns: z.array(z.string()).optional(),
+}).omit({
   id: true,
   processedCount: true,
+  cachedCount: true,
   status: true,
+  warnings: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -63,5 +203,118 @@ export const insertTrackJobSchema = createInsertSchema(trackJobs).omit({
 export type InsertTrackJob = z.infer<typeof insertTrackJobSchema>;
 export type TrackJob = typeof trackJobs.$inferSelect;
 
-export const trackJobStatus = z.enum(["pending", "processing", "completed", "failed", "cancelled", "paused"]);
+// A MAWB to track, with the data row of the source file it came from
+export type TrackingRow = {
+  rowNumber: number;
+  mawb: string;
+  // Every cell of the source row keyed by column header, carried through to the result
+  source?: Record<string, string>;
+  // Where the row was read from
+  origin?: TrackingRowOrigin;
+};
+
+// File (or "archive.zip/inner.csv"), sheet and 1-based sheet row an input row was read from
+export type TrackingRowOrigin = { file: string; sheet: string; row: number };
+
+// Parsed input of a job, kept so an interrupted job can be resumed after a restart
+export const trackJobInputs = pgTable("track_job_inputs", {
+  jobId: integer("job_id").primaryKey().references(() => trackJobs.id, { onDelete: "cascade" }),
+  rows: jsonb("rows").$type<TrackingRow[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Outcome of every input row, including rows that never produced a result
+export const rowOutcome = z.enum(["success", "invalid", "duplicate", "error", "unsupported"]);
+export type RowOutcome = z.infer<typeof rowOutcome>;
+
+// How a failed carrier lookup failed: worth retrying, not worth retrying, refused by the carrier,
+// or answered with a page the parser does not recognise
+export const carrierErrorClass = z.enum(["transient", "permanent", "blocked", "parse"]);
+export type CarrierErrorClass = z.infer<typeof carrierErrorClass>;
+
+export const trackRowOutcomes = pgTable("track_row_outcomes", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => trackJobs.id, { onDelete: "cascade" }),
+  // 1-based data row number in the source file
+  rowNumber: integer("row_number").notNull(),
+  rawInput: text("raw_input").notNull(),
+  outcome: text("outcome").$type<RowOutcome>().notNull(),
+  errorMessage: text("error_message"),
+  errorClass: text("error_class").$type<CarrierErrorClass>(),
+  // Carrier lookups repeated after a transient failure
+  retryCount: integer("retry_count").notNull().default(0),
+  resultId: integer("result_id").references(() => trackResults.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("track_row_outcomes_job_id_idx").on(table.jobId, table.rowNumber),
+]);
+
+export const insertTrackRowOutcomeSchema = createInsertSchema(trackRowOutcomes, {
+  outcome: rowOutcome,
+  errorClass: carrierErrorClass.nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertTrackRowOutcome = z.infer<typeof insertTrackRowOutcomeSchema>;
+export type TrackRowOutcome = typeof trackRowOutcomes.$inferSelect;
+
+// Checks run on a job's input before any lookup: rows whose MAWB was normalized, rows that
+// cannot be tracked and repeats of an AWB already listed on an earlier row
+export type PreflightReport = {
+  total: number;
+  // Rows that will be looked up
+  valid: number;
+  corrected: { rowNumber: number; input: string; mawb: string; note: string }[];
+  rejected: { rowNumber: number; input: string; reason: string }[];
+  duplicates: { rowNumber: number; input: string; mawb: string; duplicateOf: number }[];
+};
+
+// A sheet of an uploaded file to read AWBs from, by file name (files inside a ZIP archive are named
+// "archive.zip/inner.csv") and sheet name. The header row is a 1-based sheet row and the column a
+// 0-based index; left out, they default to what the preview detects
+export const sheetSelection = z.object({
+  file: z.string().min(1),
+  sheet: z.string().min(1),
+  headerRow: z.coerce.number().int().min(1).optional(),
+  column: z.coerce.number().int().min(0).optional(),
+});
+export type SheetSelection = z.infer<typeof sheetSelection>;
+
+// Sheets of an upload to track, sent as a JSON form field alongside the files. Left out, every sheet
+// with a recognisable AWB column is tracked
+export const inputSelection = z.preprocess(
+  (value) => typeof value === "string" ? JSON.parse(value) : value,
+  z.array(sheetSelection).min(1),
+);
+
+export type InputCounts = { total: number; valid: number; invalid: number; duplicate: number };
+
+export type InputSheetPreview = {
+  file: string;
+  name: string;
+  // Sheet row the headers were read from
+  headerRow: number;
+  headers: string[];
+  rowCount: number;
+  // First data rows, as cell text
+  sampleRows: string[][];
+  // Column most likely to hold the AWBs, if any looks like it
+  suggestedColumn: number | null;
+  // Whether the job would track this sheet, and from which column
+  selected: boolean;
+  column: number | null;
+  counts: InputCounts | null;
+};
+
+// What an upload contains and how it would be read, before a job is created
+export type InputPreview = {
+  files: string[];
+  sheets: InputSheetPreview[];
+  // Row counts over all selected sheets; an AWB listed on two sheets counts as a duplicate
+  counts: InputCounts | null;
+};
+
+export const trackJobStatus = z.enum(["pending", "queued", "processing", "completed", "failed", "cancelled", "paused"]);
 export type TrackJobStatus = z.infer<typeof trackJobStatus>;